@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Admin · Vachanamrut Companion",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-blue-50">{children}</div>;
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { isAbortError } from '@/lib/api';
+import type { MetricsSummary } from '@/lib/api';
+import type { MetricsWindow } from '@/lib/api/admin';
+import AdminLogin from '@/components/AdminLogin';
+import AdminNav from '@/components/AdminNav';
+import MetricsDashboard from '@/components/MetricsDashboard';
+import { useAdminSession } from '@/hooks/useAdminSession';
+
+const PERIODS: Array<{ value: MetricsWindow; label: string }> = [
+  { value: '1h', label: 'Last hour' },
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+];
+
+const REFRESH_MS = 30_000;
+
+export default function AdminMetricsPage() {
+  const { client, isLoaded, loginError, signIn, signOut, handleAuthError } = useAdminSession();
+  const [period, setPeriod] = useState<MetricsWindow>('24h');
+  const [summary, setSummary] = useState<MetricsSummary | null>(null);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async (signal?: AbortSignal) => {
+    if (!client) return;
+    try {
+      setSummary(await client.getMetrics(period, signal));
+      setError('');
+    } catch (err) {
+      if (isAbortError(err) || handleAuthError(err)) return;
+      setError(err instanceof Error ? err.message : 'Failed to load metrics');
+    }
+  }, [client, period, handleAuthError]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void load(controller.signal);
+    const timer = setInterval(() => void load(controller.signal), REFRESH_MS);
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [load]);
+
+  if (!isLoaded) return null;
+  if (!client) {
+    return (
+      <AdminLogin
+        error={loginError}
+        onSubmit={(token) => {
+          setSummary(null);
+          signIn(token);
+        }}
+      />
+    );
+  }
+
+  return (
+    <main className="max-w-5xl mx-auto px-4 py-8">
+      <AdminNav onSignOut={signOut} />
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Usage &amp; latency</h1>
+        <div className="flex items-center gap-2">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as MetricsWindow)}
+            aria-label="Time period"
+            className="rounded-lg border border-gray-300 bg-white px-3 py-1 text-sm text-gray-700"
+          >
+            {PERIODS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <button
+            onClick={() => void load()}
+            className="px-3 py-1 rounded-lg border border-gray-300 bg-white text-sm text-gray-700 hover:border-orange-500 hover:text-orange-600 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6 rounded">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {summary ? <MetricsDashboard summary={summary} /> : !error && <p className="text-gray-500">Loading…</p>}
+
+      <p className="text-xs text-gray-400 mt-6">
+        Kept in server memory since the last restart. Refreshes every {REFRESH_MS / 1000} seconds.
+      </p>
+    </main>
+  );
+}
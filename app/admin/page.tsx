@@ -0,0 +1,209 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '@/lib/api';
+import type { CachedAnswerList, CachedAnswerSummary, PinAnswerRequest } from '@/lib/api';
+import { decodeTtsPart } from '@/lib/audio/decode';
+import { AudioQueuePlayer } from '@/lib/audio/player';
+import AdminCacheEntry from '@/components/AdminCacheEntry';
+import AdminLogin from '@/components/AdminLogin';
+import AdminNav from '@/components/AdminNav';
+import PinAnswerForm from '@/components/PinAnswerForm';
+import { useAdminSession } from '@/hooks/useAdminSession';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function AdminCachePage() {
+  const { client, isLoaded, loginError, signIn, signOut, handleAuthError } = useAdminSession();
+  const [search, setSearch] = useState('');
+  const [list, setList] = useState<CachedAnswerList | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const playerRef = useRef<AudioQueuePlayer | null>(null);
+
+  const reportError = useCallback((err: unknown, fallback: string) => {
+    if (isAbortError(err) || handleAuthError(err)) return;
+    setError(err instanceof Error ? err.message : fallback);
+  }, [handleAuthError]);
+
+  const load = useCallback(async (signal?: AbortSignal) => {
+    if (!client) return;
+    try {
+      setList(await client.listCache(search, signal));
+      setError('');
+    } catch (err) {
+      reportError(err, 'Failed to load cached answers');
+    }
+  }, [client, search, reportError]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => void load(controller.signal), SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [load]);
+
+  useEffect(() => () => playerRef.current?.stop(), []);
+
+  const stop = useCallback(() => {
+    playerRef.current?.stop();
+    setPlayingId(null);
+  }, []);
+
+  const play = async (entry: CachedAnswerSummary) => {
+    if (!client) return;
+    stop();
+    setNotice('');
+    try {
+      const detail = await client.getCachedAnswer(entry.id);
+      if (detail.ttsParts.length === 0) {
+        setNotice('This answer has no saved audio yet. It is synthesized the next time someone asks the question.');
+        return;
+      }
+      const player = playerRef.current ?? (playerRef.current = new AudioQueuePlayer());
+      setPlayingId(entry.id);
+      const parts = detail.ttsParts.map(part => decodeTtsPart(player.audioContext, part));
+      const completed = await player.play(parts);
+      // A later play() replaced this one and owns playingId now
+      if (completed) setPlayingId(null);
+    } catch (err) {
+      setPlayingId(null);
+      reportError(err, 'Failed to play the saved audio');
+    }
+  };
+
+  // Replaces one entry in place so the list keeps its order while editing
+  const replaceEntry = (updated: CachedAnswerSummary) =>
+    setList(current => current && {
+      ...current,
+      entries: current.entries.map(entry => (entry.id === updated.id ? updated : entry)),
+    });
+
+  const saveAnswer = async (entry: CachedAnswerSummary, answer: string) => {
+    if (!client) return;
+    try {
+      if (playingId === entry.id) stop();
+      replaceEntry(await client.updateCachedAnswer(entry.id, { answer }));
+      setError('');
+    } catch (err) {
+      reportError(err, 'Failed to save the answer');
+      throw err;
+    }
+  };
+
+  const togglePin = async (entry: CachedAnswerSummary) => {
+    if (!client) return;
+    try {
+      replaceEntry(await client.updateCachedAnswer(entry.id, { pinned: !entry.pinned }));
+      setError('');
+    } catch (err) {
+      reportError(err, 'Failed to update the answer');
+    }
+  };
+
+  const remove = async (entry: CachedAnswerSummary) => {
+    if (!client || !window.confirm(`Delete the saved answer to "${entry.question}"?`)) return;
+    try {
+      if (playingId === entry.id) stop();
+      await client.deleteCachedAnswer(entry.id);
+      setList(current => current && {
+        entries: current.entries.filter(item => item.id !== entry.id),
+        total: current.total - 1,
+      });
+      setError('');
+    } catch (err) {
+      reportError(err, 'Failed to delete the answer');
+    }
+  };
+
+  const pin = async (request: PinAnswerRequest) => {
+    if (!client) return;
+    try {
+      await client.pinAnswer(request);
+      setError('');
+      await load();
+    } catch (err) {
+      reportError(err, 'Failed to pin the answer');
+      throw err;
+    }
+  };
+
+  if (!isLoaded) return null;
+  if (!client) {
+    return (
+      <AdminLogin
+        error={loginError}
+        onSubmit={(token) => {
+          setList(null);
+          signIn(token);
+        }}
+      />
+    );
+  }
+
+  return (
+    <main className="max-w-5xl mx-auto px-4 py-8">
+      <AdminNav onSignOut={() => {
+        stop();
+        signOut();
+      }} />
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Answer cache</h1>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search questions and answers"
+          aria-label="Search cached answers"
+          className="w-full sm:w-80 rounded-lg border border-gray-300 bg-white px-3 py-1 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-orange-400"
+        />
+      </div>
+
+      <PinAnswerForm onSubmit={pin} />
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6 rounded">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6 rounded flex items-start justify-between gap-4">
+          <p className="text-amber-800">{notice}</p>
+          <button onClick={() => setNotice('')} className="text-amber-700 hover:text-amber-900" aria-label="Dismiss">✕</button>
+        </div>
+      )}
+
+      {list ? (
+        <>
+          <p className="text-sm text-gray-500 mb-3">
+            {list.total === 0
+              ? search ? 'No cached answers match this search.' : 'No answers are cached yet.'
+              : `Showing ${list.entries.length} of ${list.total}`}
+          </p>
+          <ul className="space-y-4">
+            {list.entries.map(entry => (
+              <AdminCacheEntry
+                key={entry.id}
+                entry={entry}
+                isPlaying={playingId === entry.id}
+                onPlay={play}
+                onStop={stop}
+                onSaveAnswer={saveAnswer}
+                onTogglePin={togglePin}
+                onDelete={remove}
+              />
+            ))}
+          </ul>
+        </>
+      ) : !error && <p className="text-gray-500">Loading…</p>}
+
+      <p className="text-xs text-gray-400 mt-6">
+        Kept in server memory since the last restart. Pinned answers are never evicted or removed by listener reports.
+      </p>
+    </main>
+  );
+}
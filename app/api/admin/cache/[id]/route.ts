@@ -0,0 +1,57 @@
+import type { CachedAnswerDetail, CachedAnswerSummary } from '@/lib/api/types';
+import { requireAdmin } from '@/lib/server/admin';
+import { ApiError } from '@/lib/server/errors';
+import {
+  completeTtsParts,
+  deleteCachedAnswer,
+  findCachedAnswer,
+  summarizeCachedAnswer,
+  updateCachedAnswer,
+} from '@/lib/server/history';
+import { errorResponse, readJsonBody } from '@/lib/server/http';
+import { parseUpdateCachedAnswerRequest } from '@/lib/server/validate';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () => new ApiError(404, 'That answer is no longer in the cache');
+
+// One cached answer with its audio
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    requireAdmin(request);
+    const entry = findCachedAnswer((await params).id);
+    if (!entry) throw notFound();
+    const body: CachedAnswerDetail = { ...summarizeCachedAnswer(entry), ttsParts: completeTtsParts(entry) };
+    return Response.json(body, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    return errorResponse(err, 'API /admin/cache/[id]');
+  }
+}
+
+// Edits the answer text or citations, or pins/unpins it
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    requireAdmin(request);
+    const { id } = await params;
+    const entry = updateCachedAnswer(id, parseUpdateCachedAnswerRequest(await readJsonBody(request)));
+    if (!entry) throw notFound();
+    console.log('API /admin/cache: updated', id);
+    return Response.json(summarizeCachedAnswer(entry) satisfies CachedAnswerSummary);
+  } catch (err) {
+    return errorResponse(err, 'API /admin/cache/[id]');
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    requireAdmin(request);
+    const { id } = await params;
+    if (!deleteCachedAnswer(id)) throw notFound();
+    console.log('API /admin/cache: deleted', id);
+    return Response.json({ success: true });
+  } catch (err) {
+    return errorResponse(err, 'API /admin/cache/[id]');
+  }
+}
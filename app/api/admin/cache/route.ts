@@ -0,0 +1,38 @@
+import type { CachedAnswerList, CachedAnswerSummary } from '@/lib/api/types';
+import { requireAdmin } from '@/lib/server/admin';
+import { listCachedAnswers, pinAnswer, summarizeCachedAnswer } from '@/lib/server/history';
+import { errorResponse, readJsonBody } from '@/lib/server/http';
+import { parsePinAnswerRequest } from '@/lib/server/validate';
+
+// More than a screenful; narrow it down with ?q=
+const MAX_LISTED = 200;
+
+// Lists cached answers, newest first, optionally filtered by ?q= (matched
+// against question and answer text)
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request);
+    const search = new URL(request.url).searchParams.get('q') ?? undefined;
+    const matches = listCachedAnswers(search);
+    const body: CachedAnswerList = {
+      entries: matches.slice(0, MAX_LISTED).map(summarizeCachedAnswer),
+      total: matches.length,
+    };
+    return Response.json(body, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    return errorResponse(err, 'API /admin/cache');
+  }
+}
+
+// Pins a curated answer for a frequently asked question
+export async function POST(request: Request) {
+  try {
+    requireAdmin(request);
+    const { question, answer, language, citations = [] } = parsePinAnswerRequest(await readJsonBody(request));
+    const entry = pinAnswer(question, answer, citations, language);
+    console.log(`API /admin/cache: pinned a curated answer (${language ?? 'any language'})`, entry.id);
+    return Response.json(summarizeCachedAnswer(entry) satisfies CachedAnswerSummary, { status: 201 });
+  } catch (err) {
+    return errorResponse(err, 'API /admin/cache');
+  }
+}
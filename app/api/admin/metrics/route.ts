@@ -0,0 +1,26 @@
+import type { MetricsSummary } from '@/lib/api/types';
+import { requireAdmin } from '@/lib/server/admin';
+import { BadRequestError } from '@/lib/server/errors';
+import { errorResponse } from '@/lib/server/http';
+import { summarizeMetrics } from '@/lib/server/metrics';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ?window= choices and the size of the timeline buckets for each
+const WINDOWS: Record<string, { windowMs: number; bucketMs: number }> = {
+  '1h': { windowMs: HOUR_MS, bucketMs: 5 * 60 * 1000 },
+  '24h': { windowMs: 24 * HOUR_MS, bucketMs: HOUR_MS },
+  '7d': { windowMs: 7 * 24 * HOUR_MS, bucketMs: 6 * HOUR_MS },
+};
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin(request);
+    const window = new URL(request.url).searchParams.get('window') ?? '24h';
+    const range = WINDOWS[window];
+    if (!range) throw new BadRequestError(`"window" must be one of ${Object.keys(WINDOWS).join(', ')}`);
+    return Response.json(summarizeMetrics(range) satisfies MetricsSummary, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    return errorResponse(err, 'API /admin/metrics');
+  }
+}
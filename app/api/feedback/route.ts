@@ -0,0 +1,23 @@
+import type { FeedbackResponse } from '@/lib/api/types';
+import { isNegativeFeedback, recordFeedback } from '@/lib/server/feedback';
+import { invalidateAnswer } from '@/lib/server/history';
+import { errorResponse, readJsonBody } from '@/lib/server/http';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import { parseFeedbackRequest } from '@/lib/server/validate';
+
+// Stores a thumbs up/down or inaccuracy report. A flagged answer is removed
+// from the answer cache so it is not served again.
+export async function POST(request: Request) {
+  try {
+    const feedback = parseFeedbackRequest(await readJsonBody(request));
+    await enforceRateLimit(request, 'feedback');
+    const invalidated = isNegativeFeedback(feedback)
+      && invalidateAnswer(feedback.question, feedback.answer, feedback.language);
+    const record = recordFeedback(feedback, invalidated);
+    console.log(`API /feedback: ${feedback.rating ?? 'report'} for ${feedback.fromCache ? 'cached' : 'new'} answer`
+      + (invalidated ? ', removed from cache' : ''), record.id);
+    return Response.json({ invalidated } satisfies FeedbackResponse);
+  } catch (err) {
+    return errorResponse(err, 'API /feedback');
+  }
+}
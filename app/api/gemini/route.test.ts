@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GeminiStreamEvent } from '@/lib/api/types';
+import { ProviderError } from '@/lib/server/errors';
+import { setAiProvider } from '@/lib/server/providers';
+import type { AiProvider, AnswerOptions } from '@/lib/server/providers';
+import { POST } from './route';
+
+const citations = [{ id: 'Gadhada I-1' }];
+
+// Streams the answer word by word, like the real provider does
+const answering = (answer: string): AiProvider => ({
+  name: 'test',
+  generateAnswer: vi.fn(async (_request, options?: AnswerOptions) => {
+    answer.split(/(?<= )/).forEach(word => options?.onDelta?.(word));
+    return { answer, citations };
+  }),
+  synthesizeSpeech: vi.fn(),
+});
+
+const failing = (err: Error): AiProvider => ({
+  name: 'test',
+  generateAnswer: vi.fn(async (_request, options?: AnswerOptions) => {
+    options?.onDelta?.('Partial ');
+    throw err;
+  }),
+  synthesizeSpeech: vi.fn(),
+});
+
+// `fresh` keeps answers saved by one test from being served to the next
+const ask = (body: Record<string, unknown>, accept?: string) =>
+  POST(new Request('http://localhost/api/gemini', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(accept ? { Accept: accept } : {}) },
+    body: JSON.stringify({ fresh: true, ...body }),
+  }));
+
+const readEvents = async (response: Response): Promise<GeminiStreamEvent[]> =>
+  (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+describe('POST /api/gemini', () => {
+  beforeEach(() => {
+    vi.stubEnv('RATE_LIMIT', 'off');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setAiProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('answers as JSON', async () => {
+    setAiProvider(answering('Satsang is the company of the good.'));
+    const response = await ask({ query: 'What is satsang?' });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ answer: 'Satsang is the company of the good.', fromCache: false, ttsParts: [], citations });
+  });
+
+  it('streams deltas and then the complete answer as NDJSON', async () => {
+    setAiProvider(answering('Satsang is good.'));
+    const response = await ask({ query: 'What is satsang?', stream: true }, 'application/x-ndjson');
+    expect(response.headers.get('Content-Type')).toContain('application/x-ndjson');
+    expect(await readEvents(response)).toEqual([
+      { type: 'delta', text: 'Satsang ' },
+      { type: 'delta', text: 'is ' },
+      { type: 'delta', text: 'good.' },
+      { type: 'done', answer: 'Satsang is good.', fromCache: false, ttsParts: [], citations },
+    ]);
+  });
+
+  it('frames the stream as SSE when only that is accepted', async () => {
+    setAiProvider(answering('Satsang.'));
+    const response = await ask({ query: 'What is satsang?', stream: true }, 'text/event-stream');
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(await response.text()).toMatch(/^data: \{"type":"delta","text":"Satsang."\}\n\n/);
+  });
+
+  it('hides unexpected provider errors behind a generic message', async () => {
+    setAiProvider(failing(new Error('fetch failed: key AIza-secret rejected')));
+    const response = await ask({ query: 'What is satsang?' });
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Something went wrong. Please try again.' });
+
+    const streamed = await ask({ query: 'What is satsang?', stream: true });
+    const events = await readEvents(streamed);
+    expect(events.at(-1)).toEqual({ type: 'error', error: 'Something went wrong. Please try again.' });
+    expect(JSON.stringify(events)).not.toContain('AIza-secret');
+  });
+
+  it('passes ApiError messages through to the stream', async () => {
+    setAiProvider(failing(new ProviderError('Gemini blocked the question (SAFETY)')));
+    const events = await readEvents(await ask({ query: 'What is satsang?', stream: true }));
+    expect(events.at(-1)).toEqual({ type: 'error', error: 'Gemini blocked the question (SAFETY)' });
+  });
+
+  it('copes with the client cancelling the stream before the answer is done', async () => {
+    let finish: () => void = () => {};
+    setAiProvider({
+      name: 'test',
+      generateAnswer: async (_request, options) => {
+        options?.onDelta?.('Satsang ');
+        await new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+        options?.onDelta?.('is good.');
+        throw new Error('upstream hiccup');
+      },
+      synthesizeSpeech: vi.fn(),
+    });
+    const response = await ask({ query: 'What is satsang?', stream: true });
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    finish();
+    // Give the route time to try sending after the cancel
+    await new Promise(resolve => setTimeout(resolve, 10));
+    // The late delta and error event are dropped instead of throwing over the
+    // provider's own failure
+    expect(console.error).toHaveBeenCalledWith('API /gemini: stream failed', expect.objectContaining({ message: 'upstream hiccup' }));
+  });
+
+  it('rejects an invalid request before calling the provider', async () => {
+    const provider = answering('unused');
+    setAiProvider(provider);
+    const response = await ask({ query: '' });
+    expect(response.status).toBe(400);
+    expect(provider.generateAnswer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import type { GeminiResponse, GeminiStreamEvent, MetricEvent } from '@/lib/api/types';
+import { isAbortError } from '@/lib/api/errors';
+import { completeTtsParts, getCachedAnswer, saveAnswer } from '@/lib/server/history';
+import { errorResponse, publicErrorMessage, readJsonBody } from '@/lib/server/http';
+import { recordMetric } from '@/lib/server/metrics';
+import { getAiProvider } from '@/lib/server/providers';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import { parseGeminiRequest } from '@/lib/server/validate';
+import { describeFailure } from '@/lib/telemetry';
+
+type StreamFormat = 'ndjson' | 'sse';
+
+// Streaming is opted into with { stream: true }; the framing follows Accept
+const pickFormat = (request: Request): StreamFormat => {
+  const accept = request.headers.get('Accept') ?? '';
+  return accept.includes('text/event-stream') && !accept.includes('application/x-ndjson') ? 'sse' : 'ndjson';
+};
+
+const streamResponse = (
+  request: Request,
+  format: StreamFormat,
+  produce: (send: (event: GeminiStreamEvent) => void) => Promise<void>,
+) => {
+  const encoder = new TextEncoder();
+  const frame = (event: GeminiStreamEvent) =>
+    encoder.encode(format === 'ndjson' ? `${JSON.stringify(event)}\n` : `data: ${JSON.stringify(event)}\n\n`);
+
+  // Set once the client goes away; the controller throws if used after that
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GeminiStreamEvent) => {
+        if (cancelled || request.signal.aborted) return;
+        try {
+          controller.enqueue(frame(event));
+        } catch {
+          // The stream closed under us (a disconnect racing the check above)
+          cancelled = true;
+        }
+      };
+      try {
+        await produce(send);
+      } catch (err) {
+        if (!isAbortError(err)) {
+          console.error('API /gemini: stream failed', err);
+          // Headers are already sent, so the failure travels as an event
+          send({ type: 'error', error: publicErrorMessage(err) });
+        }
+      }
+      if (cancelled) return;
+      try {
+        controller.close();
+      } catch {
+        // Already closed by a disconnect
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': format === 'ndjson' ? 'application/x-ndjson; charset=utf-8' : 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+};
+
+export async function POST(request: Request) {
+  const startedAt = Date.now();
+  const record = (fields: Pick<MetricEvent, 'ok' | 'error' | 'fromCache' | 'tokens'>) =>
+    recordMetric({ stage: 'gemini', source: 'server', durationMs: Date.now() - startedAt, ...fields });
+  // Aborted requests are not failures: the listener moved on
+  const recordFailure = (err: unknown) => {
+    if (!isAbortError(err)) record({ ok: false, error: describeFailure(err) });
+  };
+
+  try {
+    const { query, language, stream, fresh, conversationId, history = [], voice, style } = parseGeminiRequest(await readJsonBody(request));
+    // A follow-up's answer depends on the turns before it, so it is neither
+    // looked up in nor added to the cache
+    const cacheable = history.length === 0;
+    if (!cacheable) {
+      console.log(`API /gemini: follow-up in conversation ${conversationId ?? '(none)'} with ${history.length} previous turn(s)`);
+    }
+
+    // A fresh answer still replaces the cached one
+    const cached = cacheable && !fresh ? getCachedAnswer(query, language) : undefined;
+    if (cached) {
+      console.log('API /gemini: answered from cache');
+      record({ ok: true, fromCache: true });
+      const body: GeminiResponse = {
+        answer: cached.answer,
+        fromCache: true,
+        ttsParts: completeTtsParts(cached, { voice, style }),
+        citations: cached.citations,
+      };
+      return stream
+        ? streamResponse(request, pickFormat(request), async send => send({ type: 'done', ...body }))
+        : Response.json(body);
+    }
+
+    // Cached answers cost nothing upstream, so only generated ones are limited
+    await enforceRateLimit(request, 'gemini');
+    const provider = getAiProvider();
+
+    if (!stream) {
+      const { answer, citations, usage } = await provider.generateAnswer({ question: query, language, history }, { signal: request.signal });
+      record({ ok: true, fromCache: false, tokens: usage });
+      if (cacheable) saveAnswer(query, answer, citations, language);
+      return Response.json({ answer, fromCache: false, ttsParts: [], citations } satisfies GeminiResponse);
+    }
+
+    return streamResponse(request, pickFormat(request), async (send) => {
+      const { answer, citations, usage } = await provider.generateAnswer({ question: query, language, history }, {
+        signal: request.signal,
+        onDelta: text => send({ type: 'delta', text }),
+      }).catch((err: unknown) => {
+        recordFailure(err);
+        throw err;
+      });
+      record({ ok: true, fromCache: false, tokens: usage });
+      if (cacheable) saveAnswer(query, answer, citations, language);
+      send({ type: 'done', answer, fromCache: false, ttsParts: [], citations });
+    });
+  } catch (err) {
+    recordFailure(err);
+    return errorResponse(err, 'API /gemini');
+  }
+}
@@ -0,0 +1,28 @@
+import { MAX_AUDIO_PART_CHARS } from '@/lib/api/limits';
+import { saveAnswerAudio } from '@/lib/server/history';
+import { errorResponse, readJsonBody } from '@/lib/server/http';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import { parseSaveAudioRequest } from '@/lib/server/validate';
+
+// One chunk plus the question and answer it belongs to
+const MAX_SAVE_AUDIO_BYTES = MAX_AUDIO_PART_CHARS + 100_000;
+
+// Attaches a synthesized chunk to the cached answer so repeating the question
+// replays it without another TTS call
+export async function POST(request: Request) {
+  try {
+    const { audioBase64, mimeType, originalMimeType, question, answer, language, voice, style, index, partCount } =
+      parseSaveAudioRequest(await readJsonBody(request, { maxBytes: MAX_SAVE_AUDIO_BYTES }));
+    await enforceRateLimit(request, 'audio');
+    const saved = saveAnswerAudio(
+      { question, answer, language },
+      { voice, style },
+      index,
+      { audio: audioBase64, mimeType, originalMimeType },
+      partCount,
+    );
+    return Response.json({ success: true, saved });
+  } catch (err) {
+    return errorResponse(err, 'API /history/save-audio');
+  }
+}
@@ -0,0 +1,17 @@
+import { errorResponse, readJsonBody } from '@/lib/server/http';
+import { recordMetric } from '@/lib/server/metrics';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import { parseMetricsReport } from '@/lib/server/validate';
+
+// Collects stage timings measured in the browser (recognition, round trips,
+// time to first audio) next to the ones the server records itself
+export async function POST(request: Request) {
+  try {
+    const { events } = parseMetricsReport(await readJsonBody(request));
+    await enforceRateLimit(request, 'metrics');
+    events.forEach(event => recordMetric({ ...event, source: 'client' }));
+    return Response.json({ success: true, recorded: events.length });
+  } catch (err) {
+    return errorResponse(err, 'API /metrics');
+  }
+}
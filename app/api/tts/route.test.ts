@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderError } from '@/lib/server/errors';
+import { setAiProvider } from '@/lib/server/providers';
+import type { AiProvider } from '@/lib/server/providers';
+import { POST } from './route';
+
+const part = { audio: 'AAAA', mimeType: 'audio/L16;codec=pcm;rate=24000' };
+
+const speaking = (synthesizeSpeech: AiProvider['synthesizeSpeech']): AiProvider => ({
+  name: 'test',
+  generateAnswer: vi.fn(),
+  synthesizeSpeech: vi.fn(synthesizeSpeech),
+});
+
+const speak = (body: Record<string, unknown>) =>
+  POST(new Request('http://localhost/api/tts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+
+describe('POST /api/tts', () => {
+  beforeEach(() => {
+    vi.stubEnv('RATE_LIMIT', 'off');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setAiProvider(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the synthesized audio without the usage figures', async () => {
+    const provider = speaking(async () => ({ ...part, usage: { promptTokens: 5, outputTokens: 50, totalTokens: 55 } }));
+    setAiProvider(provider);
+    const response = await speak({ text: 'Jay Swaminarayan', language: 'gu-IN', voice: 'Kore' });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(part);
+    expect(provider.synthesizeSpeech).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'Jay Swaminarayan', language: 'gu-IN', voice: 'Kore' }),
+      expect.anything(),
+    );
+  });
+
+  it('hides unexpected provider errors behind a generic message', async () => {
+    setAiProvider(speaking(async () => {
+      throw new Error('socket hang up at 10.0.0.3');
+    }));
+    const response = await speak({ text: 'Jay Swaminarayan' });
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Something went wrong. Please try again.' });
+  });
+
+  it('maps provider errors to their status and message', async () => {
+    setAiProvider(speaking(async () => {
+      throw new ProviderError('Gemini TTS returned no audio');
+    }));
+    const response = await speak({ text: 'Jay Swaminarayan' });
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Gemini TTS returned no audio' });
+  });
+
+  it('rejects an unknown voice before calling the provider', async () => {
+    const provider = speaking(async () => part);
+    setAiProvider(provider);
+    expect((await speak({ text: 'Jay Swaminarayan', voice: 'Nobody' })).status).toBe(400);
+    expect(provider.synthesizeSpeech).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,24 @@
+import type { TtsResponse } from '@/lib/api/types';
+import { isAbortError } from '@/lib/api/errors';
+import { errorResponse, readJsonBody } from '@/lib/server/http';
+import { recordMetric } from '@/lib/server/metrics';
+import { getAiProvider } from '@/lib/server/providers';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import { parseTtsRequest } from '@/lib/server/validate';
+import { describeFailure } from '@/lib/telemetry';
+
+export async function POST(request: Request) {
+  const startedAt = Date.now();
+  try {
+    const speech = parseTtsRequest(await readJsonBody(request));
+    await enforceRateLimit(request, 'tts');
+    const { usage, ...part } = await getAiProvider().synthesizeSpeech(speech, { signal: request.signal });
+    recordMetric({ stage: 'tts', source: 'server', durationMs: Date.now() - startedAt, ok: true, tokens: usage });
+    return Response.json(part satisfies TtsResponse);
+  } catch (err) {
+    if (!isAbortError(err)) {
+      recordMetric({ stage: 'tts', source: 'server', durationMs: Date.now() - startedAt, ok: false, error: describeFailure(err) });
+    }
+    return errorResponse(err, 'API /tts');
+  }
+}
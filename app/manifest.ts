@@ -0,0 +1,17 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Vachanamrut Companion',
+    short_name: 'વચનામૃત',
+    description: 'Ask questions about the Vachanamrut by voice and hear the answers, even offline.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#fff7ed',
+    theme_color: '#ea580c',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/favicon.ico', sizes: '48x48', type: 'image/x-icon' },
+    ],
+  };
+}
@@ -1,598 +1,673 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-
-// Type definitions for Speech Recognition API
-interface SpeechRecognitionWindow extends Window {
-  SpeechRecognition?: new () => SpeechRecognition;
-  webkitSpeechRecognition?: new () => SpeechRecognition;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
-  onend: (() => void) | null;
-}
-
-interface SpeechRecognitionEvent {
-  results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionResultList {
-  [index: number]: SpeechRecognitionResult;
-  length: number;
-}
-
-interface SpeechRecognitionResult {
-  [index: number]: SpeechRecognitionAlternative;
-  length: number;
-  isFinal: boolean;
-}
-
-interface SpeechRecognitionAlternative {
-  transcript: string;
-  confidence: number;
-}
-
-interface SpeechRecognitionErrorEvent {
-  error: string;
-}
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { NetworkError, RateLimitedError, createBackendClient, getApiBase, getClientSessionId, isAbortError } from '@/lib/api';
+import type { Citation, ConversationTurn, FeedbackRating, InaccuracyReport, TtsPart } from '@/lib/api';
+import { decodeTtsPart } from '@/lib/audio/decode';
+import { AudioQueuePlayer, initialPlaybackState } from '@/lib/audio/player';
+import type { PlaybackState } from '@/lib/audio/player';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { MAX_CONTEXT_TURNS, trimConversation } from '@/lib/context';
+import { EXIT_PHRASES, WAKE_PHRASES, matchesPhrase } from '@/lib/conversation';
+import { DEFAULT_SIMILARITY_THRESHOLD, findSimilarEntry } from '@/lib/history/match';
+import { createHistoryId, hasAudioInVoice } from '@/lib/history/store';
+import type { HistoryEntry } from '@/lib/history/store';
+import { getLanguage } from '@/lib/language';
+import type { LanguageOption } from '@/lib/language';
+import { createLogger } from '@/lib/logger';
+import { createMetricsReporter } from '@/lib/telemetry';
+import { splitIntoChunks } from '@/lib/tts/chunk';
+import { DEFAULT_VOICE_SETTINGS, getPreviewText, resolveSpeechVoice } from '@/lib/voice';
+import AnswerCacheSettings from '@/components/AnswerCacheSettings';
+import BulkAskPanel from '@/components/BulkAskPanel';
+import CitationChips from '@/components/CitationChips';
+import CitationPanel from '@/components/CitationPanel';
+import DebugPanel from '@/components/DebugPanel';
+import FeedbackControls from '@/components/FeedbackControls';
+import HistoryPanel from '@/components/HistoryPanel';
+import LanguageSelector from '@/components/LanguageSelector';
+import OfflineQueuePanel from '@/components/OfflineQueuePanel';
+import PlaybackControls from '@/components/PlaybackControls';
+import QuestionInput from '@/components/QuestionInput';
+import RateLimitNotice from '@/components/RateLimitNotice';
+import TranscriptReview from '@/components/TranscriptReview';
+import VoiceSettingsPanel from '@/components/VoiceSettingsPanel';
+import { useHistory } from '@/hooks/useHistory';
+import { usePersistentState } from '@/hooks/usePersistentState';
+import { useBulkAsk } from '@/hooks/useBulkAsk';
+import { useConversationMode } from '@/hooks/useConversationMode';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+
+// How many TTS chunks are synthesized at once. Low enough to stay well inside
+// the Gemini rate limit, high enough that the next sentence is usually ready.
+const TTS_CONCURRENCY = 2;
+
+const appLog = createLogger('app');
+const apiLog = createLogger('api');
+const ttsLog = createLogger('tts');
+const playbackLog = createLogger('playback');
+const historyLog = createLogger('history');
+
+// Countdown shown when the server doesn't say how long to wait
+const DEFAULT_RATE_LIMIT_WAIT_MS = 30_000;
 
 export default function VachanamrutCompanion() {
-  // Normalize and validate backend URL
-  const getApiBase = () => {
-    const url = process.env.NEXT_PUBLIC_BACKEND_URL || '';
-    if (!url) return '';
-    
-    // Remove any trailing slashes and invalid concatenations
-    let cleanUrl = url.trim();
-    
-    // Check for malformed URLs (e.g., "ngrok.comhttp://localhost")
-    if (cleanUrl.includes('http://') && cleanUrl.includes('https://')) {
-      // If both protocols exist, take the first https:// one
-      const httpsMatch = cleanUrl.match(/https?:\/\/[^\s]+/);
-      if (httpsMatch) {
-        cleanUrl = httpsMatch[0];
-      }
-    }
-    
-    // Remove trailing slash
-    cleanUrl = cleanUrl.replace(/\/+$/, '');
-    
-    return cleanUrl;
-  };
-
   const API_BASE = getApiBase();
-  const [isListening, setIsListening] = useState(false);
+  // Only this app's own routes know the session header; an external backend
+  // might reject it in a CORS preflight
+  const backend = useMemo(() => createBackendClient({
+    baseUrl: API_BASE,
+    getSessionId: API_BASE ? undefined : getClientSessionId,
+  }), [API_BASE]);
+  // Stage timings for the admin dashboard; external backends have no
+  // /api/metrics to collect them
+  const metrics = useMemo(() => (API_BASE ? null : createMetricsReporter({
+    send: report => backend.sendMetrics(report),
+    beaconUrl: '/api/metrics',
+  })), [API_BASE, backend]);
+
+  useEffect(() => {
+    if (!metrics) return;
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') metrics.flushOnExit();
+    };
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', metrics.flushOnExit);
+    return () => {
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', metrics.flushOnExit);
+    };
+  }, [metrics]);
   const [transcript, setTranscript] = useState('');
   const [response, setResponse] = useState('');
+  const [citations, setCitations] = useState<Citation[]>([]);
+  // Citation whose passage is open in the side panel
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const closeCitation = useCallback(() => setOpenCitation(null), []);
+  // History entry of the answer on screen, for feedback
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [error, setError] = useState('');
-  const [history, setHistory] = useState<Array<{ query: string; answer: string }>>([]);
+  // Informational message, e.g. about offline answers
+  const [notice, setNotice] = useState('');
+  // Set while the server is refusing requests; shown as a countdown instead
+  // of an error
+  const [rateLimit, setRateLimit] = useState<{ message: string; until: number } | null>(null);
+  const clearRateLimit = useCallback(() => setRateLimit(null), []);
+  // Routes rate limit rejections to the countdown and everything else to the
+  // error banner
+  const showError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof RateLimitedError) {
+      setRateLimit({ message: err.message, until: Date.now() + (err.retryAfterMs ?? DEFAULT_RATE_LIMIT_WAIT_MS) });
+      return;
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  }, []);
+  const [speakTypedAnswers, setSpeakTypedAnswers] = usePersistentState('speakTypedAnswers', true);
+  const [languageCode, setLanguageCode] = usePersistentState('language', 'gu-IN');
+  const language = getLanguage(languageCode);
+  // Recognizer callbacks and in-flight requests read the latest choice from here
+  const languageRef = useRef<LanguageOption>(language);
+  languageRef.current = language;
+  const [voiceSettings, setVoiceSettings] = usePersistentState('voiceSettings', DEFAULT_VOICE_SETTINGS);
+  const voiceSettingsRef = useRef(voiceSettings);
+  voiceSettingsRef.current = voiceSettings;
+  // Voice and style answers in this language are spoken in right now
+  const speechFor = (languageCode: string) => resolveSpeechVoice(voiceSettingsRef.current, languageCode);
+  const { entries: history, usage: storageUsage, addEntry, updateEntry, removeEntry, clearAll } = useHistory();
+  // The current conversation; its recent turns are sent with each question so
+  // follow-ups keep their context
+  const [session, setSession] = useState(() => ({ id: createHistoryId(), turns: [] as ConversationTurn[] }));
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const bulk = useBulkAsk({ backend, onAnswered: addEntry });
+
+  // Client-side answer cache: similar questions are answered from history
+  const [reuseSavedAnswers, setReuseSavedAnswers] = usePersistentState('reuseSavedAnswers', true);
+  const [similarityThreshold, setSimilarityThreshold] = usePersistentState('similarityThreshold', DEFAULT_SIMILARITY_THRESHOLD);
+  const answerCacheRef = useRef({ enabled: reuseSavedAnswers, threshold: similarityThreshold });
+  answerCacheRef.current = { enabled: reuseSavedAnswers, threshold: similarityThreshold };
+  // Set while the shown answer came from history, so the user can ask again
+  const [savedMatch, setSavedMatch] = useState<{ query: string; matchedQuery: string; similarity: number; speak: boolean } | null>(null);
+
+  // Questions asked offline are answered silently into history on reconnect
+  const isOnline = useOnlineStatus();
+  const {
+    queue: offlineQueue,
+    retryAt: offlineRetryAt,
+    enqueue: enqueueOffline,
+    retry: retryOffline,
+    remove: removeOffline,
+  } = useOfflineQueue({
+    isOnline,
+    answer: async ({ query, language: code }) => {
+      const speech = speechFor(code);
+      const { answer, fromCache, ttsParts, citations: answerCitations } = await backend.askGemini({ query, language: code, ...speech });
+      addEntry({
+        id: createHistoryId(),
+        query,
+        answer,
+        timestamp: Date.now(),
+        language: code,
+        ttsParts: fromCache ? ttsParts : [],
+        ...speech,
+        citations: answerCitations,
+        fromCache,
+      });
+    },
+    onFlushed: (count) => {
+      setNotice(`Back online: answered ${count} question${count === 1 ? '' : 's'} you asked offline. See the history below.`);
+    },
+  });
   
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const audioElementRef = useRef<HTMLAudioElement | null>(null);
+  const playerRef = useRef<AudioQueuePlayer | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState>(initialPlaybackState);
+  // Identity of the question currently being answered. Starting a new question
+  // aborts the previous one so its late gemini/TTS results are dropped.
+  const questionRef = useRef<{ id: number; controller: AbortController; startedAt: number } | null>(null);
+  const questionCounterRef = useRef(0);
+
+  const beginQuestion = useCallback(() => {
+    questionRef.current?.controller.abort();
+    const question = { id: ++questionCounterRef.current, controller: new AbortController(), startedAt: Date.now() };
+    questionRef.current = question;
+    return { questionId: question.id, signal: question.controller.signal };
+  }, []);
+
+  // The player owns an AudioContext, so create it lazily in the browser
+  const getPlayer = () => {
+    if (!playerRef.current) {
+      playerRef.current = new AudioQueuePlayer();
+      playerRef.current.subscribe(setPlayback);
+    }
+    return playerRef.current;
+  };
+
+  useEffect(() => {
+    return () => {
+      playerRef.current?.stop();
+    };
+  }, []);
+
+  const isCurrentQuestion = (questionId: number) => questionRef.current?.id === questionId;
+
+  const cancelQuestion = useCallback(() => {
+    if (questionRef.current) {
+      appLog.debug('Cancelling question', { questionId: questionRef.current.id });
+      questionRef.current.controller.abort();
+      questionRef.current = null;
+    }
+  }, []);
 
-  // Check if backend URL is configured
+  // An empty base means the app's own /api routes
   useEffect(() => {
-    if (!API_BASE) {
-      setError('Backend server not configured. Please set NEXT_PUBLIC_BACKEND_URL environment variable in Vercel.');
-    } else if (!API_BASE.startsWith('http://') && !API_BASE.startsWith('https://')) {
+    if (API_BASE && !API_BASE.startsWith('http://') && !API_BASE.startsWith('https://')) {
       setError(`Invalid backend URL format: ${API_BASE}. URL must start with http:// or https://`);
     } else {
-      console.log('Backend URL configured:', API_BASE);
+      apiLog.info('Backend configured', { baseUrl: API_BASE || '(same origin)' });
     }
   }, [API_BASE]);
 
-  const processQuery = useCallback(async (query: string) => {
-    if (!API_BASE) {
-      setError('Backend server URL not configured. Please set NEXT_PUBLIC_BACKEND_URL in your .env.local file.');
-      return;
-    }
+  const processQuery = useCallback(async (
+    query: string,
+    { speak = true, fresh = false }: { speak?: boolean; fresh?: boolean } = {},
+  ) => {
+    // Supersede whatever question was still in flight
+    stopAudio();
+    const { questionId, signal } = beginQuestion();
 
     setIsProcessing(true);
     setError('');
+    setNotice('');
+    setResponse('');
+    setCitations([]);
+    setSavedMatch(null);
+    setCurrentEntryId(null);
+    const answerLanguage = languageRef.current;
+    const speech = speechFor(answerLanguage.code);
+
+    // Without a connection, reuse an earlier answer to the same question
+    // (with its audio, even in another voice) or queue the question until the
+    // connection returns
+    const answerOffline = () => {
+      setIsProcessing(false);
+      const saved = findSimilarEntry(historyRef.current, query, answerLanguage.code, answerCacheRef.current.threshold)?.entry;
+      if (!saved) {
+        apiLog.info('Offline, question queued');
+        enqueueOffline(query, answerLanguage.code);
+        setNotice("You're offline. Your question is saved and will be answered when the connection returns.");
+        return;
+      }
+      setNotice("You're offline, so this is the answer saved in your history.");
+      setCurrentEntryId(saved.id);
+      setResponse(saved.answer);
+      setCitations(saved.citations ?? []);
+      if (speak && saved.ttsParts.length > 0) {
+        speakFromCachedAudio(saved.ttsParts, questionId).catch(err => {
+          playbackLog.error('Saved audio failed to play', err);
+        });
+      }
+    };
 
+    if (!navigator.onLine) {
+      answerOffline();
+      return;
+    }
+
+    // A similar question answered before is served from history without a
+    // round trip. Follow-ups depend on the conversation, so they always go out.
+    const { enabled: reuse, threshold } = answerCacheRef.current;
+    const match = reuse && !fresh && sessionRef.current.turns.length === 0
+      ? findSimilarEntry(historyRef.current, query, answerLanguage.code, threshold)
+      : undefined;
+    if (match) {
+      const { entry, similarity } = match;
+      historyLog.info('Reusing saved answer', { similarity: Math.round(similarity * 100) / 100 });
+      setIsProcessing(false);
+      setResponse(entry.answer);
+      setCitations(entry.citations ?? []);
+      setSavedMatch({ query, matchedQuery: entry.query, similarity, speak });
+      setCurrentEntryId(entry.id);
+      const { id: conversationId } = sessionRef.current;
+      setSession(prev => prev.id === conversationId
+        ? { ...prev, turns: [...prev.turns, { question: query, answer: entry.answer }].slice(-MAX_CONTEXT_TURNS) }
+        : prev);
+      if (!speak) return;
+      if (hasAudioInVoice(entry, speech)) {
+        speakFromCachedAudio(entry.ttsParts, questionId).catch(err => {
+          playbackLog.error('Saved audio failed to play', err);
+        });
+      } else {
+        speakResponse(entry.answer, {
+          questionId,
+          signal,
+          question: entry.query,
+          entryId: entry.id,
+          language: getLanguage(entry.language),
+        }).catch(err => {
+          playbackLog.error('Answer audio failed to play', err);
+        });
+      }
+      return;
+    }
+
+    const askedAt = Date.now();
     try {
-      // Get answer from backend (backend will check history first)
-      const geminiResponse = await fetch(`${API_BASE}/api/gemini`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      // Get answer from backend (backend will check history first). Streaming
+      // backends fill the Answer card as text arrives.
+      const { id: conversationId, turns: allTurns } = sessionRef.current;
+      // Asking fresh replaces the turn holding the rejected saved answer
+      const replacesLast = fresh && allTurns[allTurns.length - 1]?.question === query;
+      const turns = replacesLast ? allTurns.slice(0, -1) : allTurns;
+      apiLog.info('Asking', { question: query, language: answerLanguage.code, earlierTurns: turns.length, fresh });
+      const { answer, fromCache, ttsParts, citations: answerCitations } = await backend.streamGemini({
+        query,
+        language: answerLanguage.code,
+        conversationId,
+        history: trimConversation(turns),
+        fresh,
+        ...speech,
+      }, {
+        signal,
+        onDelta: (text) => {
+          if (isCurrentQuestion(questionId)) {
+            setResponse(prev => prev + text);
+          }
         },
-        body: JSON.stringify({ query }),
       });
-
-      if (!geminiResponse.ok) {
-        throw new Error('Failed to get response from AI');
+      metrics?.record('gemini', Date.now() - askedAt, { fromCache });
+      apiLog.info('Answer received', { answer, fromCache, citations: answerCitations.length, ms: Date.now() - askedAt });
+      if (!isCurrentQuestion(questionId)) {
+        apiLog.debug('Discarding answer for superseded question', { questionId });
+        return;
       }
-
-      const { answer, fromCache, ttsParts } = await geminiResponse.json();
       setResponse(answer);
-
-      // Add to history
-      setHistory(prev => [...prev, { query, answer }]);
+      setCitations(answerCitations);
+      setRateLimit(null);
+      setSession(prev => prev.id === conversationId
+        ? { ...prev, turns: [...(replacesLast ? prev.turns.slice(0, -1) : prev.turns), { question: query, answer }].slice(-MAX_CONTEXT_TURNS) }
+        : prev);
+
+      // Add to history (audio parts are attached once TTS finishes)
+      const entryId = createHistoryId();
+      setCurrentEntryId(entryId);
+      addEntry({
+        id: entryId,
+        query,
+        answer,
+        timestamp: Date.now(),
+        language: answerLanguage.code,
+        ttsParts: fromCache ? ttsParts : [],
+        ...speech,
+        citations: answerCitations,
+        fromCache,
+      });
 
       // Set processing to false immediately after getting answer
       // So mic button is enabled while audio is playing
       setIsProcessing(false);
 
+      // Typed questions can be answered silently
+      if (!speak) {
+        ttsLog.debug('Typed question answered without speech');
+        return;
+      }
+
       // Start audio playback in background (don't await - let it play while mic is enabled)
       // If we have cached audio parts, use them directly (no API call needed)
-      if (fromCache && ttsParts && ttsParts.length > 0) {
-        console.log('Using cached audio - no TTS API call needed');
-        speakFromCachedAudio(ttsParts).catch(err => {
-          console.error('Error playing cached audio:', err);
+      if (fromCache && ttsParts.length > 0) {
+        speakFromCachedAudio(ttsParts, questionId).catch(err => {
+          playbackLog.error('Cached audio failed to play', err);
         });
       } else {
         // New question - generate TTS and save to history
-        console.log('New question - generating TTS...');
-        speakResponse(answer, query).catch(err => {
-          console.error('Error playing audio:', err);
+        speakResponse(answer, { questionId, signal, question: query, entryId, language: answerLanguage }).catch(err => {
+          playbackLog.error('Answer audio failed to play', err);
         });
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      metrics?.fail('gemini', askedAt, err);
+      if (!isAbortError(err)) apiLog.error('Question failed', err);
+      // A newer question (or the stop button) owns the UI state now
+      if (isAbortError(err) || !isCurrentQuestion(questionId)) return;
+      if (err instanceof NetworkError) {
+        answerOffline();
+        return;
+      }
+      showError(err, 'An error occurred');
       setIsProcessing(false);
     }
-  }, [API_BASE]);
-
-  useEffect(() => {
-    // Initialize Speech Recognition
-    if (typeof window !== 'undefined' && ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window)) {
-      const SpeechRecognition = (window as SpeechRecognitionWindow).SpeechRecognition || (window as SpeechRecognitionWindow).webkitSpeechRecognition;
-      if (SpeechRecognition) {
-        recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = false;
-      recognitionRef.current.interimResults = false;
-      recognitionRef.current.lang = 'gu-IN'; // Gujarati + English (India)
-
-      recognitionRef.current.onresult = async (event: SpeechRecognitionEvent) => {
-        const speechToText = event.results[0][0].transcript;
-        setTranscript(speechToText);
-        setIsListening(false);
-        
-        // Automatically process the query
-        await processQuery(speechToText);
-      };
-
-      recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
-        // Handle normal/expected errors silently
-        if (event.error === 'no-speech') {
-          // User didn't speak or spoke too quietly - just reset, no error needed
-          console.log('No speech detected - user can try again');
-          setIsListening(false);
-          return;
-        }
-        
-        if (event.error === 'aborted') {
-          // User manually stopped - this is normal
-          console.log('Speech recognition aborted - normal');
-          setIsListening(false);
-          return;
-        }
-        
-        // Only log and show real errors
-        console.error('Speech recognition error:', event.error);
-        setError(`Voice recognition error: ${event.error}`);
-        setIsListening(false);
-      };
-
-      recognitionRef.current.onend = () => {
-        setIsListening(false);
-      };
+  }, [backend, metrics, beginQuestion, addEntry, enqueueOffline, showError]);
+
+  const [confirmBeforeSend, setConfirmBeforeSend] = usePersistentState('confirmBeforeSend', false);
+  // Recognized question waiting for the user to confirm or edit it
+  const [pendingTranscript, setPendingTranscript] = useState<string | null>(null);
+
+  const {
+    isSupported: speechSupported,
+    isListening,
+    interimTranscript,
+    start: startRecognition,
+    stop: stopListening,
+    abort: abortListening,
+  } = useSpeechRecognition({
+    lang: language.code,
+    onResult: (speechToText, durationMs) => {
+      metrics?.record('recognition', durationMs);
+      conversation.markActivity();
+      // Spoken commands toggle conversation mode instead of being asked
+      if (conversation.isEnabled && matchesPhrase(speechToText, EXIT_PHRASES)) {
+        conversation.disable('Conversation mode ended.');
+        return;
+      }
+      if (!conversation.isEnabled && matchesPhrase(speechToText, WAKE_PHRASES)) {
+        conversation.enable();
+        return;
       }
-    }
 
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
+      setTranscript(speechToText);
+      if (confirmBeforeSend) {
+        setPendingTranscript(speechToText);
+        return;
       }
-    };
-  }, [processQuery]);
+      // Automatically process the query
+      processQuery(speechToText);
+    },
+    onError: (message) => {
+      setError(message);
+      // Don't keep re-arming a mic that can't be used
+      conversation.disable();
+    },
+  });
 
   const startListening = () => {
-    // Stop any playing audio when mic is activated
-    if (isSpeaking) {
-      stopAudio();
-    }
-    
-    // Reinitialize recognition if it doesn't exist or is in a bad state
-    if (!recognitionRef.current) {
-      if (typeof window !== 'undefined' && ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window)) {
-        const SpeechRecognition = (window as SpeechRecognitionWindow).SpeechRecognition || (window as SpeechRecognitionWindow).webkitSpeechRecognition;
-        if (SpeechRecognition) {
-          recognitionRef.current = new SpeechRecognition();
-          recognitionRef.current.continuous = false;
-          recognitionRef.current.interimResults = false;
-          recognitionRef.current.lang = 'gu-IN';
-
-          recognitionRef.current.onresult = async (event: SpeechRecognitionEvent) => {
-            const speechToText = event.results[0][0].transcript;
-            setTranscript(speechToText);
-            setIsListening(false);
-            
-            // Automatically process the query
-            await processQuery(speechToText);
-          };
-
-          recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
-            // Handle normal/expected errors silently
-            if (event.error === 'no-speech') {
-              console.log('No speech detected - user can try again');
-              setIsListening(false);
-              return;
-            }
-            
-            if (event.error === 'aborted') {
-              console.log('Speech recognition aborted - normal');
-              setIsListening(false);
-              return;
-            }
-            
-            // Only log and show real errors
-            console.error('Speech recognition error:', event.error);
-            setError(`Voice recognition error: ${event.error}`);
-            setIsListening(false);
-          };
-
-          recognitionRef.current.onend = () => {
-            setIsListening(false);
-          };
-        }
-      }
-    }
-    
-    if (recognitionRef.current) {
-      try {
-        setError('');
-        setTranscript('');
-        setResponse('');
-        setIsListening(true);
-        recognitionRef.current.start();
-        console.log('Frontend: Speech recognition started');
-      } catch (e) {
-        console.error('Error starting recognition:', e);
-        setIsListening(false);
-        setError('Failed to start speech recognition. Please try again.');
-        
-        // Try to reinitialize if start failed
-        recognitionRef.current = null;
-      }
+    // A new question supersedes any pending answer or audio
+    cancelQuestion();
+    stopAudio();
+    setIsProcessing(false);
+    setError('');
+    setNotice('');
+    setTranscript('');
+    setResponse('');
+    setCitations([]);
+    setSavedMatch(null);
+    setCurrentEntryId(null);
+    setPendingTranscript(null);
+    startRecognition();
+  };
+
+  const conversation = useConversationMode({
+    isListening,
+    isProcessing,
+    isSpeaking,
+    isBlocked: pendingTranscript !== null,
+    // Re-arming keeps the previous answer on screen until the next question
+    listen: startRecognition,
+    bargeIn: startListening,
+  });
+
+  const toggleConversation = () => {
+    if (conversation.isEnabled) {
+      conversation.disable();
+      abortListening();
     } else {
-      setError('Speech recognition not supported in your browser');
+      setError('');
+      setNotice('');
+      conversation.enable();
     }
   };
 
-  const stopListening = () => {
-    console.log('Frontend: Stopping speech recognition');
-    if (recognitionRef.current) {
-      try {
-        recognitionRef.current.stop();
-      } catch (e) {
-        console.error('Error stopping recognition:', e);
-      }
-      setIsListening(false);
-      
-      // Reinitialize recognition to ensure it can be used again
-      // The SpeechRecognition API sometimes gets stuck after stopping
-      setTimeout(() => {
-        if (typeof window !== 'undefined' && ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window)) {
-          const SpeechRecognition = (window as SpeechRecognitionWindow).SpeechRecognition || (window as SpeechRecognitionWindow).webkitSpeechRecognition;
-          if (SpeechRecognition) {
-            try {
-              // Create a new recognition instance to ensure it's fresh
-              recognitionRef.current = new SpeechRecognition();
-              recognitionRef.current.continuous = false;
-              recognitionRef.current.interimResults = false;
-              recognitionRef.current.lang = 'gu-IN';
-
-              recognitionRef.current.onresult = async (event: SpeechRecognitionEvent) => {
-                const speechToText = event.results[0][0].transcript;
-                setTranscript(speechToText);
-                setIsListening(false);
-                
-                // Automatically process the query
-                await processQuery(speechToText);
-              };
-
-          recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
-            // Handle normal/expected errors silently
-            if (event.error === 'no-speech') {
-              console.log('No speech detected - user can try again');
-              setIsListening(false);
-              return;
-            }
-            
-            if (event.error === 'aborted') {
-              console.log('Speech recognition aborted - normal');
-              setIsListening(false);
-              return;
-            }
-            
-            // Only log and show real errors
-            console.error('Speech recognition error:', event.error);
-            setError(`Voice recognition error: ${event.error}`);
-            setIsListening(false);
-          };
-
-              recognitionRef.current.onend = () => {
-                setIsListening(false);
-              };
-              
-              console.log('Frontend: Speech recognition reinitialized, ready for next use');
-            } catch (e) {
-              console.error('Error reinitializing recognition:', e);
-            }
-          }
-        }
-      }, 100); // Small delay to ensure cleanup
-    }
+  const sendPendingTranscript = (question: string) => {
+    setPendingTranscript(null);
+    setTranscript(question);
+    processQuery(question);
   };
 
-  // Play audio from cached parts (no API call)
-  const speakFromCachedAudio = async (ttsParts: Array<{ audio: string; mimeType: string; originalMimeType?: string }>) => {
-    console.log('Frontend: Using cached audio - no TTS API call needed');
+  // Play audio parts in order through the shared player. Parts may still be
+  // synthesizing: the player waits for each one only when its turn comes.
+  const playParts = async (parts: Array<TtsPart | Promise<TtsPart>>, questionId: number, fromCache: boolean) => {
     // Stop mic if it's listening when audio starts
     if (isListening) {
-      stopListening();
+      abortListening();
     }
     setIsSpeaking(true);
 
     try {
-      for (let i = 0; i < ttsParts.length; i++) {
-        const part = ttsParts[i];
-        let audioBlob: Blob;
-        
-        if (part.originalMimeType && (part.originalMimeType.includes('L16') || part.originalMimeType.includes('pcm'))) {
-          console.log(`Frontend: Converting cached PCM part ${i} to WAV...`);
-          const byteCharacters = atob(part.audio);
-          const byteNumbers = new Array(byteCharacters.length);
-          for (let j = 0; j < byteCharacters.length; j++) {
-            byteNumbers[j] = byteCharacters.charCodeAt(j);
-          }
-          const pcmArray = new Uint8Array(byteNumbers);
-          audioBlob = pcmToWav(pcmArray, 24000);
-        } else {
-          audioBlob = base64ToBlob(part.audio, part.mimeType);
+      const player = getPlayer();
+      const buffers = parts.map(part =>
+        Promise.resolve(part).then(resolved => decodeTtsPart(player.audioContext, resolved))
+      );
+      // Playback starts as soon as the first part is decoded; measured from
+      // when the question (or replay) began
+      const startedAt = questionRef.current?.startedAt;
+      buffers[0]?.then(() => {
+        if (startedAt !== undefined && isCurrentQuestion(questionId)) {
+          metrics?.record('first-audio', Date.now() - startedAt, { fromCache });
         }
-        
-        const audioUrl = URL.createObjectURL(audioBlob);
-        const audioElement = new Audio(audioUrl);
-        audioElementRef.current = audioElement;
-
-        await new Promise<void>((resolve) => {
-          // Check if audio element was cleared (meaning stop was clicked)
-          const checkStopped = () => {
-            if (!audioElementRef.current || audioElementRef.current !== audioElement) {
-              URL.revokeObjectURL(audioUrl);
-              resolve();
-              return true;
-            }
-            return false;
-          };
-
-          if (checkStopped()) return;
-
-          audioElement.onended = () => {
-            if (!checkStopped()) {
-              URL.revokeObjectURL(audioUrl);
-              resolve();
-            }
-          };
-          audioElement.onerror = () => {
-            URL.revokeObjectURL(audioUrl);
-            resolve();
-          };
-          audioElement.play().catch(() => resolve());
-        });
-
-        // Check if stopped between parts
-        if (!audioElementRef.current) {
-          console.log('Frontend: Audio playback cancelled between parts');
-          break;
-        }
-      }
-      // Only set speaking to false if audio element still exists (wasn't stopped)
-      if (audioElementRef.current) {
+      }, () => {});
+      const completed = await player.play(buffers);
+      playbackLog.debug(completed ? 'Playback ended' : 'Playback stopped');
+      // If audio was stopped, isSpeaking is already false from stopAudio()
+      if (completed && isCurrentQuestion(questionId)) {
         setIsSpeaking(false);
-        audioElementRef.current = null;
       }
-      // If audio was stopped, isSpeaking is already false from stopAudio()
     } catch (err) {
+      if (isAbortError(err) || !isCurrentQuestion(questionId)) return;
       setIsSpeaking(false);
-      if (audioElementRef.current) {
-        audioElementRef.current = null;
-      }
-      setError(err instanceof Error ? err.message : 'Failed to play cached audio');
+      showError(err, 'Failed to play audio');
     }
   };
 
-  // Generate new TTS and save to history
-  const speakResponse = async (text: string, question?: string) => {
-    if (!API_BASE) {
-      setError('Backend server URL not configured.');
-      return;
-    }
-
-    // Stop mic if it's listening when audio starts
-    if (isListening) {
-      stopListening();
-    }
-
-    console.log('Frontend: Starting TTS for text:', text.substring(0, 50) + '...');
-    setIsSpeaking(true);
+  // Play audio from cached parts (no API call)
+  const speakFromCachedAudio = async (ttsParts: TtsPart[], questionId: number) => {
+    playbackLog.info('Playing saved audio', { parts: ttsParts.length });
+    await playParts(ttsParts, questionId, true);
+  };
 
+  // Generate new TTS chunk by chunk and save each part to history
+  const speakResponse = async (
+    text: string,
+    { questionId, signal, question, entryId, language: voiceLanguage }: {
+      questionId: number;
+      signal: AbortSignal;
+      question?: string;
+      entryId?: string;
+      language: LanguageOption;
+    },
+  ) => {
+    const chunks = splitIntoChunks(text);
+    const speech = speechFor(voiceLanguage.code);
+    ttsLog.info('Synthesizing answer', { chunks: chunks.length, text, ...speech });
     const sessionTimestamp = Date.now();
 
-    try {
-      // Get audio from TTS API via backend
-      const ttsResponse = await fetch(`${API_BASE}/api/tts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ text }),
-      });
-
-      console.log('Frontend: TTS response status:', ttsResponse.status);
-
-      if (!ttsResponse.ok) {
-        const errorData = await ttsResponse.json();
-        console.error('Frontend: TTS error:', errorData);
-        throw new Error(errorData.error || 'Failed to generate speech');
-      }
+    const parts = mapWithConcurrency(chunks, TTS_CONCURRENCY, async (chunk, index) => {
+      const requestedAt = Date.now();
+      const part = await backend.synthesizeSpeech({ text: chunk, language: voiceLanguage.code, ...speech }, { signal })
+        .catch((err: unknown) => {
+          metrics?.fail('tts', requestedAt, err);
+          throw err;
+        });
+      metrics?.record('tts', Date.now() - requestedAt);
+      ttsLog.debug('Received chunk', { index, of: chunks.length, mimeType: part.originalMimeType ?? part.mimeType });
 
-      const { audio, mimeType, originalMimeType } = await ttsResponse.json();
-      console.log('Frontend: Received audio, mimeType:', mimeType, 'original:', originalMimeType);
-
-      // Convert base64 to audio and play
-      let audioBlob;
-      
-      if (originalMimeType && (originalMimeType.includes('L16') || originalMimeType.includes('pcm'))) {
-        console.log('Frontend: Converting PCM to WAV...');
-        const byteCharacters = atob(audio);
-        const byteNumbers = new Array(byteCharacters.length);
-        for (let i = 0; i < byteCharacters.length; i++) {
-          byteNumbers[i] = byteCharacters.charCodeAt(i);
-        }
-        const pcmArray = new Uint8Array(byteNumbers);
-        audioBlob = pcmToWav(pcmArray, 24000);
-        console.log('Frontend: Created WAV blob from PCM, size:', audioBlob.size);
-      } else {
-        audioBlob = base64ToBlob(audio, mimeType);
-        console.log('Frontend: Created audio blob, size:', audioBlob.size);
-      }
-      
       // Save audio to history in background
-      if (question) {
-        fetch(`${API_BASE}/api/history/save-audio`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            audioBase64: audio,
-            mimeType,
-            originalMimeType,
-            question,
-            answer: text,
-            index: 0,
-            timestamp: sessionTimestamp
-          })
-        }).catch(err => console.error('Failed to save audio to history:', err));
+      if (question && isCurrentQuestion(questionId)) {
+        backend.saveAudio({
+          audioBase64: part.audio,
+          mimeType: part.mimeType,
+          originalMimeType: part.originalMimeType,
+          question,
+          answer: text,
+          language: voiceLanguage.code,
+          ...speech,
+          index,
+          partCount: chunks.length,
+          timestamp: sessionTimestamp
+        }).catch(err => historyLog.warn('Failed to save audio to the server history', err));
       }
-
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audioElement = new Audio(audioUrl);
-      audioElementRef.current = audioElement;
-
-      audioElement.onended = () => {
-        console.log('Frontend: Audio playback ended');
-        // Only update state if this is still the current audio element
-        if (audioElementRef.current === audioElement) {
-          setIsSpeaking(false);
-          audioElementRef.current = null;
-        }
-        URL.revokeObjectURL(audioUrl);
-      };
-
-      audioElement.onerror = (e) => {
-        console.error('Frontend: Audio playback error:', e);
-        // Only update state if this is still the current audio element
-        if (audioElementRef.current === audioElement) {
-          setIsSpeaking(false);
-          audioElementRef.current = null;
-          setError('Failed to play audio');
-        }
-        URL.revokeObjectURL(audioUrl);
-      };
-
-      console.log('Frontend: Starting audio playback...');
-      await audioElement.play();
-      console.log('Frontend: Audio is playing');
-    } catch (err) {
-      setIsSpeaking(false);
-      audioElementRef.current = null;
-      setError(err instanceof Error ? err.message : 'Failed to speak response');
+      return part;
+    });
+    // Parts after a failure or cancellation are never awaited by playParts
+    parts.forEach(part => part.catch(() => {}));
+
+    // Keep the audio with the local history entry so it can be replayed offline
+    if (entryId) {
+      Promise.all(parts)
+        .then(allParts => updateEntry(entryId, { ttsParts: allParts, ...speech }))
+        .catch(() => {});
     }
+
+    await playParts(parts, questionId, false);
   };
 
   const stopAudio = () => {
-    console.log('Frontend: Stopping audio playback');
-    
-    // Stop and clean up audio element first
-    if (audioElementRef.current) {
-      try {
-        audioElementRef.current.pause();
-        audioElementRef.current.currentTime = 0;
-        // Clear all event handlers to prevent them from firing
-        audioElementRef.current.onended = null;
-        audioElementRef.current.onerror = null;
-      } catch (e) {
-        console.error('Error stopping audio:', e);
-      }
-      audioElementRef.current = null;
-    }
-    
+    playbackLog.debug('Stopping playback');
+    playerRef.current?.stop();
+
     // Immediately clear speaking state to enable mic button
     setIsSpeaking(false);
-    
-    console.log('Frontend: Audio stopped, microphone button enabled. States: isSpeaking=false, isProcessing=' + isProcessing);
   };
 
-  const base64ToBlob = (base64: string, mimeType: string) => {
-    const byteCharacters = atob(base64);
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
+  // Replay a history entry from its stored audio without calling /api/tts;
+  // entries saved before their audio finished, or in another voice, are
+  // synthesized again
+  const replayEntry = (entry: HistoryEntry) => {
+    stopAudio();
+    if (isListening) {
+      abortListening();
     }
-    const byteArray = new Uint8Array(byteNumbers);
-    return new Blob([byteArray], { type: mimeType });
+    setPendingTranscript(null);
+    const { questionId, signal } = beginQuestion();
+    setIsProcessing(false);
+    setError('');
+    setNotice('');
+    setTranscript(entry.query);
+    setResponse(entry.answer);
+    setCitations(entry.citations ?? []);
+    setSavedMatch(null);
+    setCurrentEntryId(entry.id);
+
+    if (hasAudioInVoice(entry, speechFor(entry.language))) {
+      speakFromCachedAudio(entry.ttsParts, questionId).catch(err => {
+        playbackLog.error('History audio failed to replay', err);
+      });
+    } else {
+      speakResponse(entry.answer, {
+        questionId,
+        signal,
+        question: entry.query,
+        entryId: entry.id,
+        language: getLanguage(entry.language),
+      }).catch(err => {
+        playbackLog.error('History audio failed to regenerate', err);
+      });
+    }
+  };
+
+  // Speaks a sample line; nothing is saved to the history or the server
+  const previewVoice = (languageCode: string) => {
+    stopAudio();
+    const { questionId, signal } = beginQuestion();
+    setError('');
+    speakResponse(getPreviewText(languageCode), { questionId, signal, language: getLanguage(languageCode) }).catch(err => {
+      playbackLog.error('Voice preview failed to play', err);
+    });
+  };
+
+  const submitTypedQuestion = (question: string) => {
+    if (isListening) {
+      abortListening();
+    }
+    setPendingTranscript(null);
+    setTranscript(question);
+    processQuery(question, { speak: speakTypedAnswers });
+  };
+
+  const stopQuestion = () => {
+    cancelQuestion();
+    stopAudio();
+    setIsProcessing(false);
   };
 
-  const pcmToWav = (pcmData: Uint8Array, sampleRate: number = 24000, numChannels: number = 1, bitsPerSample: number = 16): Blob => {
-    const byteRate = sampleRate * numChannels * bitsPerSample / 8;
-    const blockAlign = numChannels * bitsPerSample / 8;
-    const wavHeader = new ArrayBuffer(44);
-    const view = new DataView(wavHeader);
-
-    // RIFF identifier
-    view.setUint32(0, 0x52494646, false); // "RIFF"
-    // file length
-    view.setUint32(4, 36 + pcmData.length, true);
-    // RIFF type & Format
-    view.setUint32(8, 0x57415645, false); // "WAVE"
-    view.setUint32(12, 0x666D7420, false); // "fmt "
-    // format chunk length
-    view.setUint32(16, 16, true);
-    // sample format (PCM)
-    view.setUint16(20, 1, true);
-    // channel count
-    view.setUint16(22, numChannels, true);
-    // sample rate
-    view.setUint32(24, sampleRate, true);
-    // byte rate
-    view.setUint32(28, byteRate, true);
-    // block align
-    view.setUint16(32, blockAlign, true);
-    // bits per sample
-    view.setUint16(34, bitsPerSample, true);
-    // data chunk identifier
-    view.setUint32(36, 0x64617461, false); // "data"
-    // data chunk length
-    view.setUint32(40, pcmData.length, true);
-
-    // Create a new array to avoid type issues
-    const headerArray = new Uint8Array(wavHeader);
-    const combinedArray = new Uint8Array(headerArray.length + pcmData.length);
-    combinedArray.set(headerArray, 0);
-    combinedArray.set(pcmData, headerArray.length);
-    return new Blob([combinedArray], { type: 'audio/wav' });
+  // Records feedback on the entry and reports it to the backend, which drops a
+  // flagged answer from its cache. Un-toggling a thumb is only kept locally.
+  const submitFeedback = (entry: HistoryEntry, { rating, report }: { rating?: FeedbackRating; report?: InaccuracyReport }) => {
+    updateEntry(entry.id, report ? { reported: true } : { rating });
+    if (!rating && !report) return;
+    backend.sendFeedback({
+      question: entry.query,
+      answer: entry.answer,
+      language: entry.language,
+      fromCache: entry.fromCache ?? false,
+      rating,
+      report,
+    })
+      .then(({ invalidated }) => {
+        if (invalidated) historyLog.info('Flagged answer removed from the server cache');
+      })
+      .catch(err => apiLog.warn('Failed to send feedback', err));
+  };
+
+  const currentEntry = currentEntryId ? history.find(entry => entry.id === currentEntryId) : undefined;
+
+  // Forget the previous turns so the next question starts fresh
+  const startNewConversation = () => {
+    stopQuestion();
+    setPendingTranscript(null);
+    setSession({ id: createHistoryId(), turns: [] });
+    setTranscript('');
+    setResponse('');
+    setCitations([]);
+    setSavedMatch(null);
+    setCurrentEntryId(null);
+    setError('');
+    setNotice('');
   };
 
   return (
@@ -611,34 +686,38 @@ export default function VachanamrutCompanion() {
 
         {/* Main Card */}
         <div className="bg-white rounded-2xl shadow-2xl p-8 mb-6">
+          {/* Language */}
+          <LanguageSelector value={language.code} onChange={setLanguageCode} />
+
           {/* Microphone Button */}
           <div className="flex justify-center items-center gap-4 mb-8">
-            <button
-              onClick={isListening ? stopListening : startListening}
-              disabled={isProcessing}
-              className={`relative w-32 h-32 rounded-full transition-all duration-300 transform hover:scale-110 disabled:opacity-50 disabled:cursor-not-allowed ${
-                isListening
-                  ? 'bg-red-500 animate-pulse shadow-lg shadow-red-500/50'
-                  : 'bg-gradient-to-br from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 shadow-lg'
-              }`}
-            >
-              <div className="flex items-center justify-center">
-                {isListening ? (
-                  <svg className="w-16 h-16 text-white" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
-                  </svg>
-                ) : (
-                  <svg className="w-16 h-16 text-white" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" />
-                  </svg>
-                )}
-              </div>
-            </button>
+            {speechSupported !== false && (
+              <button
+                onClick={isListening ? stopListening : startListening}
+                className={`relative w-32 h-32 rounded-full transition-all duration-300 transform hover:scale-110 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isListening
+                    ? 'bg-red-500 animate-pulse shadow-lg shadow-red-500/50'
+                    : 'bg-gradient-to-br from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 shadow-lg'
+                }`}
+              >
+                <div className="flex items-center justify-center">
+                  {isListening ? (
+                    <svg className="w-16 h-16 text-white" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+                    </svg>
+                  ) : (
+                    <svg className="w-16 h-16 text-white" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" />
+                    </svg>
+                  )}
+                </div>
+              </button>
+            )}
 
-            {/* Stop Audio Button */}
-            {isSpeaking && (
+            {/* Stop Button - cancels the pending answer and any playback */}
+            {(isSpeaking || isProcessing) && (
               <button
-                onClick={stopAudio}
+                onClick={stopQuestion}
                 className="relative w-20 h-20 rounded-full bg-gradient-to-br from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 shadow-lg transition-all duration-300 transform hover:scale-110 animate-fade-in"
               >
                 <div className="flex items-center justify-center">
@@ -650,8 +729,35 @@ export default function VachanamrutCompanion() {
             )}
           </div>
 
+          {/* Conversation Mode */}
+          {speechSupported && (
+            <div className="flex flex-col items-center mb-6">
+              <button
+                onClick={toggleConversation}
+                aria-pressed={conversation.isEnabled}
+                className={`px-4 py-1.5 rounded-full text-sm font-semibold border transition-colors ${
+                  conversation.isEnabled
+                    ? 'bg-green-600 text-white border-green-600'
+                    : 'bg-white text-gray-600 border-gray-300 hover:border-green-500'
+                }`}
+              >
+                🗣️ Conversation mode {conversation.isEnabled ? 'on' : 'off'}
+              </button>
+              <p className="text-xs text-gray-500 mt-1">
+                {conversation.isEnabled
+                  ? 'Hands-free: ask follow-ups after each answer, or speak to interrupt. Say "stop conversation" to end.'
+                  : conversation.endReason || 'Or say "start conversation" to go hands-free.'}
+              </p>
+            </div>
+          )}
+
           {/* Status Text */}
           <div className="text-center mb-6">
+            {!isOnline && (
+              <p className="inline-block mb-2 px-3 py-1 rounded-full bg-gray-200 text-gray-700 text-sm font-semibold">
+                📴 Offline{offlineQueue.length > 0 && ` · ${offlineQueue.length} question${offlineQueue.length === 1 ? '' : 's'} queued`}
+              </p>
+            )}
             {isListening && (
               <p className="text-red-600 font-semibold text-lg animate-pulse">
                 🎤 Listening... Speak now
@@ -659,21 +765,87 @@ export default function VachanamrutCompanion() {
             )}
             {isProcessing && (
               <p className="text-blue-600 font-semibold text-lg">
-                🤔 Searching the Vachanamrut...
+                {response ? '✍️ Answering...' : '🤔 Searching the Vachanamrut...'}
               </p>
             )}
             {isSpeaking && (
               <p className="text-green-600 font-semibold text-lg">
-                🔊 Speaking...
+                {playback.status === 'paused' ? '⏸️ Paused' : playback.status === 'loading' ? '⏳ Preparing audio...' : '🔊 Speaking...'}
               </p>
             )}
             {!isListening && !isProcessing && !isSpeaking && (
               <p className="text-gray-500 text-lg">
-                Tap the microphone to ask a question
+                {speechSupported === false
+                  ? 'Voice input is not available in this browser. Type your question below.'
+                  : 'Tap the microphone or type a question'}
               </p>
             )}
           </div>
 
+          {/* Typed Question */}
+          <QuestionInput
+            onSubmit={submitTypedQuestion}
+            speakAnswers={speakTypedAnswers}
+            onSpeakAnswersChange={setSpeakTypedAnswers}
+            prominent={speechSupported === false}
+          />
+          {speechSupported && (
+            <label className="flex items-center gap-2 -mt-4 mb-6 text-sm text-gray-600 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={confirmBeforeSend}
+                onChange={(e) => setConfirmBeforeSend(e.target.checked)}
+                className="accent-orange-600"
+              />
+              Review spoken questions before sending
+            </label>
+          )}
+          <AnswerCacheSettings
+            enabled={reuseSavedAnswers}
+            threshold={similarityThreshold}
+            onEnabledChange={setReuseSavedAnswers}
+            onThresholdChange={setSimilarityThreshold}
+          />
+          <VoiceSettingsPanel
+            settings={voiceSettings}
+            onChange={setVoiceSettings}
+            onPreview={previewVoice}
+            isPreviewDisabled={isProcessing || isListening}
+          />
+
+          {/* Playback Controls */}
+          {isSpeaking && playback.status !== 'idle' && (
+            <PlaybackControls
+              state={playback}
+              onPause={() => playerRef.current?.pause()}
+              onResume={() => playerRef.current?.resume()}
+              onPrevious={() => playerRef.current?.previous()}
+              onNext={() => playerRef.current?.next()}
+              onSeek={(seconds) => playerRef.current?.seek(seconds)}
+              onRateChange={(rate) => playerRef.current?.setRate(rate)}
+            />
+          )}
+
+          {/* Notice Display */}
+          {notice && (
+            <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-6 rounded">
+              <p className="text-blue-800">{notice}</p>
+            </div>
+          )}
+
+          {/* Rate Limit Countdown */}
+          {rateLimit && (
+            <RateLimitNotice message={rateLimit.message} until={rateLimit.until} onExpire={clearRateLimit} />
+          )}
+
+          {/* Queued Questions That Failed */}
+          <OfflineQueuePanel
+            queue={offlineQueue}
+            retryAt={offlineRetryAt}
+            onRetry={retryOffline}
+            onRemove={removeOffline}
+          />
+
           {/* Error Display */}
           {error && (
             <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6 rounded">
@@ -681,10 +853,40 @@ export default function VachanamrutCompanion() {
             </div>
           )}
 
+          {/* Conversation Context */}
+          {session.turns.length > 0 && (
+            <div className="flex items-center justify-between gap-4 mb-4 text-sm text-gray-500">
+              <span>
+                💬 Follow-ups remember {session.turns.length} earlier question{session.turns.length === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={startNewConversation}
+                className="px-3 py-1 rounded-full border border-gray-300 hover:border-orange-500 hover:text-orange-600 transition-colors"
+              >
+                New conversation
+              </button>
+            </div>
+          )}
+
           {/* Current Conversation */}
-          {(transcript || response) && (
+          {(transcript || response || interimTranscript || pendingTranscript !== null) && (
             <div className="space-y-4 mb-6">
-              {transcript && (
+              {pendingTranscript !== null ? (
+                <TranscriptReview
+                  key={pendingTranscript}
+                  transcript={pendingTranscript}
+                  onSend={sendPendingTranscript}
+                  onDiscard={() => {
+                    setPendingTranscript(null);
+                    setTranscript('');
+                  }}
+                />
+              ) : isListening && interimTranscript ? (
+                <div className="bg-blue-50 p-4 rounded-lg border-l-4 border-blue-300">
+                  <p className="text-sm text-blue-600 font-semibold mb-1">Your Question:</p>
+                  <p className="text-gray-500 italic">{interimTranscript}…</p>
+                </div>
+              ) : transcript && (
                 <div className="bg-blue-50 p-4 rounded-lg border-l-4 border-blue-500">
                   <p className="text-sm text-blue-600 font-semibold mb-1">Your Question:</p>
                   <p className="text-gray-800">{transcript}</p>
@@ -694,34 +896,59 @@ export default function VachanamrutCompanion() {
                 <div className="bg-orange-50 p-4 rounded-lg border-l-4 border-orange-500">
                   <p className="text-sm text-orange-600 font-semibold mb-1">Answer:</p>
                   <p className="text-gray-800 whitespace-pre-wrap">{response}</p>
+                  {savedMatch && (
+                    <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-gray-600">
+                      <span title={`Saved answer to "${savedMatch.matchedQuery}"`}>
+                        💾 This is a saved answer{savedMatch.similarity < 1 && ` (${Math.round(savedMatch.similarity * 100)}% match)`}.
+                      </span>
+                      <button
+                        onClick={() => processQuery(savedMatch.query, { speak: savedMatch.speak, fresh: true })}
+                        className="text-orange-700 font-semibold underline hover:text-orange-800"
+                      >
+                        Ask fresh
+                      </button>
+                    </div>
+                  )}
+                  <CitationChips citations={citations} onSelect={setOpenCitation} />
+                  {currentEntry && !isProcessing && (
+                    <FeedbackControls
+                      rating={currentEntry.rating}
+                      reported={currentEntry.reported}
+                      onRate={(rating) => submitFeedback(currentEntry, { rating })}
+                      onReport={(report) => submitFeedback(currentEntry, { report })}
+                    />
+                  )}
                 </div>
               )}
             </div>
           )}
         </div>
 
+        <CitationPanel citation={openCitation} onClose={closeCitation} />
+
+        {/* Bulk Questions */}
+        <BulkAskPanel
+          items={bulk.items}
+          isRunning={bulk.isRunning}
+          languageLabel={language.name}
+          onStart={(questions, withAudio) => bulk.start(questions, { language, speech: speechFor(language.code), withAudio })}
+          onRetry={bulk.retry}
+          onCancel={bulk.cancel}
+          onClear={bulk.clear}
+        />
+
         {/* Chat History */}
-        {history.length > 0 && (
-          <div className="bg-white rounded-2xl shadow-xl p-6">
-            <h3 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
-              📜 History
-            </h3>
-            <div className="space-y-4 max-h-96 overflow-y-auto">
-              {history.map((item, index) => (
-                <div key={index} className="border-b border-gray-200 pb-4 last:border-b-0">
-                  <div className="mb-2">
-                    <p className="text-sm text-blue-600 font-semibold">Question {index + 1}:</p>
-                    <p className="text-gray-700">{item.query}</p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-orange-600 font-semibold">Answer:</p>
-                    <p className="text-gray-700 text-sm whitespace-pre-wrap">{item.answer}</p>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
+        <HistoryPanel
+          entries={history}
+          usage={storageUsage}
+          onReplay={replayEntry}
+          onDelete={removeEntry}
+          onClearAll={clearAll}
+          onFeedback={submitFeedback}
+        />
+
+        {/* Support */}
+        <DebugPanel />
 
         {/* Footer */}
         <footer className="text-center mt-8 text-gray-500 text-sm">
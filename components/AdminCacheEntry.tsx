@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import type { CachedAnswerSummary } from '@/lib/api';
+import { LANGUAGES } from '@/lib/language';
+
+interface AdminCacheEntryProps {
+  entry: CachedAnswerSummary;
+  isPlaying: boolean;
+  onPlay: (entry: CachedAnswerSummary) => void;
+  onStop: () => void;
+  // Resolves once saved so the editor can close; rejects to keep it open
+  onSaveAnswer: (entry: CachedAnswerSummary, answer: string) => Promise<void>;
+  onTogglePin: (entry: CachedAnswerSummary) => void;
+  onDelete: (entry: CachedAnswerSummary) => void;
+}
+
+const describeAudio = ({ audioParts, audioComplete }: CachedAnswerSummary) => {
+  if (audioComplete) return `🔊 ${audioParts} part${audioParts === 1 ? '' : 's'}`;
+  if (audioParts > 0) return `🔈 ${audioParts} part${audioParts === 1 ? '' : 's'}, incomplete`;
+  return '🔇 No audio yet';
+};
+
+// Unknown tags (from an external client) are shown as sent
+const describeLanguage = (code?: string) =>
+  code ? LANGUAGES.find(language => language.code === code)?.name ?? code : 'Any language';
+
+const buttonClass = 'px-3 py-1 rounded-full border border-gray-300 hover:border-orange-500 hover:text-orange-600 disabled:opacity-50 transition-colors';
+
+export default function AdminCacheEntry({
+  entry,
+  isPlaying,
+  onPlay,
+  onStop,
+  onSaveAnswer,
+  onTogglePin,
+  onDelete,
+}: AdminCacheEntryProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    if (draft === null || !draft.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSaveAnswer(entry, draft.trim());
+      setDraft(null);
+    } catch {
+      // The page reports the error; keep the draft so nothing is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className={`bg-white rounded-2xl shadow p-4 ${entry.pinned ? 'ring-2 ring-orange-300' : ''}`}>
+      <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+        <p className="font-semibold text-gray-800">
+          {entry.pinned && <span title="Pinned curated answer">📌 </span>}
+          {entry.question}
+        </p>
+        <span className="text-xs text-gray-400 whitespace-nowrap">
+          {describeLanguage(entry.language)} ·{' '}
+          {new Date(entry.editedAt ?? entry.timestamp).toLocaleString()}
+          {entry.editedAt ? ' (edited)' : ''}
+        </span>
+      </div>
+
+      {draft === null ? (
+        <p className="text-gray-700 whitespace-pre-wrap text-sm">{entry.answer}</p>
+      ) : (
+        <>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            aria-label="Answer"
+            className="w-full rounded-xl border border-gray-300 px-3 py-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-orange-400"
+          />
+          <p className="text-xs text-amber-700 mt-1">Saving drops this answer&apos;s audio; it is synthesized again when next played.</p>
+        </>
+      )}
+
+      {entry.citations.length > 0 && (
+        <p className="text-xs text-orange-700 mt-2">📖 {entry.citations.map(citation => citation.id).join(', ')}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-gray-600">
+        <span className="text-xs text-gray-500 mr-2">{describeAudio(entry)}</span>
+        {isPlaying ? (
+          <button onClick={onStop} className={buttonClass}>⏹ Stop</button>
+        ) : (
+          <button onClick={() => onPlay(entry)} className={buttonClass}>▶ Play</button>
+        )}
+        {draft === null ? (
+          <button onClick={() => setDraft(entry.answer)} className={buttonClass}>✏️ Edit</button>
+        ) : (
+          <>
+            <button onClick={save} disabled={isSaving || !draft.trim() || draft.trim() === entry.answer} className={buttonClass}>
+              {isSaving ? 'Saving…' : 'Save'}
+            </button>
+            <button onClick={() => setDraft(null)} disabled={isSaving} className={buttonClass}>Cancel</button>
+          </>
+        )}
+        <button onClick={() => onTogglePin(entry)} className={buttonClass}>{entry.pinned ? 'Unpin' : '📌 Pin'}</button>
+        <button
+          onClick={() => onDelete(entry)}
+          className="px-3 py-1 rounded-full border border-gray-300 hover:border-red-400 hover:text-red-600 transition-colors"
+        >
+          🗑 Delete
+        </button>
+      </div>
+    </li>
+  );
+}
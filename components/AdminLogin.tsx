@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+
+interface AdminLoginProps {
+  onSubmit: (token: string) => void;
+  // Shown when the previous token was rejected
+  error?: string;
+}
+
+export default function AdminLogin({ onSubmit, error }: AdminLoginProps) {
+  const [token, setToken] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (token.trim()) onSubmit(token.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto mt-24 bg-white rounded-2xl shadow-lg p-6">
+      <h1 className="text-xl font-bold text-gray-800 mb-1">Admin</h1>
+      <p className="text-sm text-gray-500 mb-4">Enter the server&apos;s ADMIN_TOKEN to continue.</p>
+      <input
+        type="password"
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        autoComplete="current-password"
+        placeholder="Admin token"
+        aria-label="Admin token"
+        className="w-full rounded-xl border border-gray-300 px-4 py-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-orange-400"
+      />
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      <button
+        type="submit"
+        disabled={!token.trim()}
+        className="mt-4 w-full px-4 py-2 rounded-xl bg-orange-600 text-white font-semibold hover:bg-orange-700 disabled:opacity-50 transition-colors"
+      >
+        Sign in
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+
+const LINKS = [
+  { href: '/admin', label: 'Answer cache' },
+  { href: '/admin/metrics', label: 'Usage & latency' },
+];
+
+interface AdminNavProps {
+  onSignOut: () => void;
+}
+
+export default function AdminNav({ onSignOut }: AdminNavProps) {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex flex-wrap items-center justify-between gap-4 mb-6 pb-4 border-b border-gray-200">
+      <div className="flex items-center gap-2">
+        <span className="font-bold text-gray-800 mr-2">Admin</span>
+        {LINKS.map(link => (
+          <Link
+            key={link.href}
+            href={link.href}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${
+              pathname === link.href ? 'bg-orange-600 text-white' : 'text-gray-600 hover:text-orange-600'
+            }`}
+          >
+            {link.label}
+          </Link>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 text-sm">
+        <Link href="/" className="text-gray-500 hover:text-gray-800">Back to the app</Link>
+        <button onClick={onSignOut} className="text-gray-500 hover:text-gray-800">Sign out</button>
+      </div>
+    </nav>
+  );
+}
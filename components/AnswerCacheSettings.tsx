@@ -0,0 +1,41 @@
+'use client';
+
+interface AnswerCacheSettingsProps {
+  enabled: boolean;
+  threshold: number;
+  onEnabledChange: (enabled: boolean) => void;
+  onThresholdChange: (threshold: number) => void;
+}
+
+// Whether similar questions reuse a saved answer, and how similar they must be
+export default function AnswerCacheSettings({ enabled, threshold, onEnabledChange, onThresholdChange }: AnswerCacheSettingsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 -mt-4 mb-6 text-sm text-gray-600">
+      <label className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="accent-orange-600"
+        />
+        Reuse saved answers for similar questions
+      </label>
+      {enabled && (
+        <label className="flex items-center gap-2">
+          <span>Match</span>
+          <input
+            type="range"
+            min={70}
+            max={100}
+            step={1}
+            value={Math.round(threshold * 100)}
+            onChange={(e) => onThresholdChange(Number(e.target.value) / 100)}
+            aria-label="Required similarity"
+            className="accent-orange-600"
+          />
+          <span className="w-10 tabular-nums">{Math.round(threshold * 100)}%</span>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { MAX_BULK_QUESTIONS, parseQuestionList } from '@/lib/bulk';
+import type { BulkItem, BulkItemStatus } from '@/hooks/useBulkAsk';
+
+interface BulkAskPanelProps {
+  items: BulkItem[];
+  isRunning: boolean;
+  languageLabel: string;
+  onStart: (questions: string[], withAudio: boolean) => void;
+  onRetry: () => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<BulkItemStatus, string> = {
+  pending: '⏳ Waiting',
+  asking: '🤔 Asking…',
+  speaking: '🔊 Preparing audio…',
+  done: '✅ Done',
+  failed: '⚠️ Failed',
+  cancelled: '⏹ Cancelled',
+};
+
+// Paste or upload a list of questions and have them all answered into history
+export default function BulkAskPanel({ items, isRunning, languageLabel, onStart, onRetry, onCancel, onClear }: BulkAskPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [filename, setFilename] = useState<string | undefined>();
+  const [withAudio, setWithAudio] = useState(false);
+
+  const questions = parseQuestionList(text, filename);
+  const tooMany = questions.length > MAX_BULK_QUESTIONS;
+  const finished = items.filter(item => item.status === 'done').length;
+  const retryable = items.filter(item => item.status === 'failed' || item.status === 'cancelled').length;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setFilename(file.name);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h3 className="text-2xl font-bold text-gray-800">📋 Bulk Questions</h3>
+        <span className="text-gray-400">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-600 mb-3">
+            Paste one question per line, or upload a .txt or .csv file. Answers are added to the history in {languageLabel}.
+          </p>
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setFilename(undefined);
+            }}
+            rows={6}
+            disabled={isRunning}
+            placeholder={'1. What is the Vachanamrut?\n2. What does it teach about bhakti?'}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:border-orange-500 text-gray-800"
+          />
+          <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-gray-600">
+            <label className="cursor-pointer text-orange-600 hover:underline">
+              Upload file
+              <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleFile} disabled={isRunning} className="hidden" />
+            </label>
+            {filename && <span className="text-gray-500">{filename}</span>}
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={withAudio}
+                onChange={(e) => setWithAudio(e.target.checked)}
+                disabled={isRunning}
+                className="accent-orange-600"
+              />
+              Also prepare audio (slower)
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            {isRunning ? (
+              <button onClick={onCancel} className="px-4 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700">
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={() => onStart(questions, withAudio)}
+                disabled={questions.length === 0 || tooMany}
+                className="px-4 py-2 rounded-lg bg-orange-600 text-white font-semibold hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Ask {questions.length} question{questions.length === 1 ? '' : 's'}
+              </button>
+            )}
+            {!isRunning && retryable > 0 && (
+              <button onClick={onRetry} className="px-4 py-2 rounded-lg border border-orange-500 text-orange-700 hover:bg-orange-50">
+                Retry {retryable}
+              </button>
+            )}
+            {!isRunning && items.length > 0 && (
+              <button onClick={onClear} className="text-sm text-gray-500 hover:underline">
+                Clear list
+              </button>
+            )}
+            {tooMany && (
+              <p className="text-sm text-red-600">At most {MAX_BULK_QUESTIONS} questions can be asked at once.</p>
+            )}
+          </div>
+
+          {items.length > 0 && (
+            <div className="mt-4">
+              <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mb-2">
+                <div className="h-full bg-orange-400 transition-all" style={{ width: `${(finished / items.length) * 100}%` }} />
+              </div>
+              <p className="text-xs text-gray-500 mb-2" role="status">
+                {finished} of {items.length} answered
+              </p>
+              <ol className="space-y-1 max-h-64 overflow-y-auto text-sm">
+                {items.map((item, index) => (
+                  <li key={item.id} className="flex items-start justify-between gap-3 border-b border-gray-100 py-1">
+                    <span className="text-gray-700">
+                      {index + 1}. {item.query}
+                      {item.error && <span className="block text-xs text-red-600">{item.error}</span>}
+                      {item.warning && <span className="block text-xs text-amber-600">{item.warning}</span>}
+                    </span>
+                    <span className="shrink-0 text-gray-500">{STATUS_LABELS[item.status]}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import type { Citation } from '@/lib/api';
+
+interface CitationChipsProps {
+  citations: Citation[];
+  onSelect: (citation: Citation) => void;
+}
+
+export default function CitationChips({ citations, onSelect }: CitationChipsProps) {
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-orange-200">
+      <p className="text-xs text-orange-600 font-semibold mb-2">Sources:</p>
+      <div className="flex flex-wrap gap-2">
+        {citations.map(citation => (
+          <button
+            key={citation.id}
+            onClick={() => onSelect(citation)}
+            title={citation.title ?? citation.id}
+            className="px-3 py-1 rounded-full text-sm bg-white border border-orange-300 text-orange-700 hover:bg-orange-100 transition-colors"
+          >
+            📖 {citation.id}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
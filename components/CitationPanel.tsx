@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect } from 'react';
+import type { Citation } from '@/lib/api';
+
+interface CitationPanelProps {
+  citation: Citation | null;
+  onClose: () => void;
+}
+
+// Side panel with the passage an answer cites, so it can be checked against
+// the text
+export default function CitationPanel({ citation, onClose }: CitationPanelProps) {
+  useEffect(() => {
+    if (!citation) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [citation, onClose]);
+
+  if (!citation) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="citation-title"
+        className="relative w-full max-w-md h-full bg-white shadow-2xl p-6 overflow-y-auto animate-fade-in"
+      >
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 id="citation-title" className="text-xl font-bold text-orange-700">
+              Vachanamrut {citation.id}
+            </h3>
+            {citation.title && <p className="text-gray-700 mt-1">{citation.title}</p>}
+            {citation.location && <p className="text-sm text-gray-500 mt-1">📍 {citation.location}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="text-gray-400 hover:text-gray-700 text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        {citation.passage ? (
+          <blockquote className="border-l-4 border-orange-400 bg-orange-50 p-4 rounded text-gray-800 whitespace-pre-wrap">
+            {citation.passage}
+          </blockquote>
+        ) : (
+          <p className="text-gray-500 italic">No passage was quoted for this discourse.</p>
+        )}
+
+        <p className="text-xs text-gray-500 mt-4">
+          Passages are quoted by the AI model and may be inexact. Please verify them against a printed Vachanamrut.
+        </p>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { clearLog, formatLogData, formatLogEntries, setDebugEnabled } from '@/lib/logger';
+import type { LogLevel } from '@/lib/logger';
+import { copyText } from '@/lib/share';
+import { useLogEntries } from '@/hooks/useLogEntries';
+import { usePersistentState } from '@/hooks/usePersistentState';
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-gray-400',
+  info: 'text-gray-700',
+  warn: 'text-amber-700',
+  error: 'text-red-700',
+};
+
+const NOTICE_MS = 2500;
+
+// Recent log for support cases, and the switch for detailed logging. The
+// switch is remembered across visits.
+export default function DebugPanel() {
+  const [debugLogging, setDebugLogging] = usePersistentState('debugLogging', false);
+  const entries = useLogEntries();
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    setDebugEnabled(debugLogging);
+  }, [debugLogging]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(''), NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const copyLog = async () => {
+    try {
+      await copyText(formatLogEntries(entries));
+      setNotice('Log copied');
+    } catch {
+      setNotice('Could not copy the log');
+    }
+  };
+
+  return (
+    <details className="mt-8 text-sm text-gray-600">
+      <summary className="cursor-pointer select-none text-gray-500 hover:text-gray-700">
+        🛠 Debug log ({entries.length})
+      </summary>
+      <div className="mt-3 bg-white rounded-xl border border-gray-200 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <label className="flex items-center gap-2 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={debugLogging}
+              onChange={(e) => setDebugLogging(e.target.checked)}
+              className="accent-orange-600"
+            />
+            Detailed logging, including question and answer text
+          </label>
+          <div className="flex items-center gap-2">
+            {notice && <span className="text-gray-500">{notice}</span>}
+            <button
+              onClick={copyLog}
+              disabled={entries.length === 0}
+              className="px-3 py-1 rounded-full border border-gray-300 hover:border-orange-500 hover:text-orange-600 disabled:opacity-50 transition-colors"
+            >
+              Copy log
+            </button>
+            <button
+              onClick={clearLog}
+              disabled={entries.length === 0}
+              className="px-3 py-1 rounded-full border border-gray-300 hover:border-red-400 hover:text-red-600 disabled:opacity-50 transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        {!debugLogging && (
+          <p className="text-xs text-gray-400 mb-2">
+            Questions and answers are hidden from the log until detailed logging is on.
+          </p>
+        )}
+        {entries.length === 0 ? (
+          <p className="text-gray-400">Nothing logged yet.</p>
+        ) : (
+          <ol className="max-h-80 overflow-y-auto font-mono text-xs space-y-1">
+            {[...entries].reverse().map(entry => (
+              <li key={entry.id} className={LEVEL_STYLES[entry.level]}>
+                <span className="text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>{' '}
+                <span className="font-semibold">[{entry.scope}]</span> {entry.message}
+                {entry.data && <span className="text-gray-500 break-all"> {formatLogData(entry.data)}</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </details>
+  );
+}
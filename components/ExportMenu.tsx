@@ -0,0 +1,100 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { HistoryEntry } from '@/lib/history/store';
+import { createLogger } from '@/lib/logger';
+import { downloadBlob } from '@/lib/share';
+import { buildTranscriptBundle, formatTranscriptMarkdown, transcriptFilename } from '@/lib/transcript';
+import PrintableTranscript from './PrintableTranscript';
+
+const log = createLogger('history');
+
+interface ExportMenuProps {
+  entries: HistoryEntry[];
+}
+
+type Scope = 'today' | 'all';
+
+const isToday = (timestamp: number) => new Date(timestamp).toDateString() === new Date().toDateString();
+
+// Export of the history as a Markdown or printable (PDF) transcript, or a ZIP
+// with the transcript and every answer's audio
+export default function ExportMenu({ entries }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<Scope>('today');
+  const [printing, setPrinting] = useState<HistoryEntry[] | null>(null);
+  // New for every print request, so the transcript remounts and prints again
+  const [printRequest, setPrintRequest] = useState(0);
+  const [status, setStatus] = useState('');
+  const finishPrinting = useCallback(() => setPrinting(null), []);
+
+  const todays = entries.filter(entry => isToday(entry.timestamp));
+  const selected = scope === 'today' ? todays : entries;
+
+  const exportMarkdown = () => {
+    const blob = new Blob([formatTranscriptMarkdown(selected)], { type: 'text/markdown;charset=utf-8' });
+    downloadBlob(blob, transcriptFilename('md'));
+    setIsOpen(false);
+  };
+
+  const exportPdf = () => {
+    setPrinting(selected);
+    setPrintRequest(request => request + 1);
+    setIsOpen(false);
+  };
+
+  const exportBundle = async () => {
+    setStatus('Preparing audio…');
+    try {
+      downloadBlob(await buildTranscriptBundle(selected), transcriptFilename('zip'));
+      setStatus('');
+      setIsOpen(false);
+    } catch (err) {
+      log.error('Failed to build transcript bundle', err);
+      setStatus('Could not create the ZIP file');
+    }
+  };
+
+  const itemClass = 'block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-orange-50 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="text-sm text-orange-600 hover:text-orange-700 hover:underline"
+      >
+        Export ▾
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-2">
+          <div className="flex gap-1 px-4 pb-2 mb-1 border-b border-gray-100 text-xs">
+            {(['today', 'all'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                aria-pressed={scope === option}
+                className={`px-2 py-1 rounded-full ${scope === option ? 'bg-orange-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                {option === 'today' ? `Today (${todays.length})` : `All (${entries.length})`}
+              </button>
+            ))}
+          </div>
+          <button onClick={exportMarkdown} disabled={selected.length === 0} className={itemClass}>
+            📝 Markdown transcript
+          </button>
+          <button onClick={exportPdf} disabled={selected.length === 0} className={itemClass}>
+            🖨️ PDF (print)
+          </button>
+          <button onClick={exportBundle} disabled={selected.length === 0 || status === 'Preparing audio…'} className={itemClass}>
+            🗜️ ZIP with audio
+          </button>
+          {status && <p className="px-4 pt-1 text-xs text-gray-500" role="status">{status}</p>}
+        </div>
+      )}
+
+      {printing && <PrintableTranscript key={printRequest} entries={printing} onDone={finishPrinting} />}
+    </div>
+  );
+}
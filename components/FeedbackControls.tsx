@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import type { FeedbackRating, InaccuracyReport } from '@/lib/api';
+
+interface FeedbackControlsProps {
+  rating?: FeedbackRating;
+  reported?: boolean;
+  onRate: (rating: FeedbackRating | undefined) => void;
+  onReport: (report: InaccuracyReport) => void;
+}
+
+const REASONS: Array<{ value: InaccuracyReport['reason']; label: string }> = [
+  { value: 'incorrect', label: 'The answer is incorrect' },
+  { value: 'wrong-source', label: 'It cites the wrong discourse' },
+  { value: 'off-topic', label: "It doesn't answer the question" },
+  { value: 'other', label: 'Something else' },
+];
+
+// Thumbs up/down and a "report inaccuracy" form for one answer
+export default function FeedbackControls({ rating, reported, onRate, onReport }: FeedbackControlsProps) {
+  const [isReporting, setIsReporting] = useState(false);
+  const [reason, setReason] = useState<InaccuracyReport['reason']>('incorrect');
+  const [details, setDetails] = useState('');
+  const [correctReference, setCorrectReference] = useState('');
+
+  const thumbClass = (active: boolean) =>
+    `w-8 h-8 rounded-full transition-colors ${active ? 'bg-orange-100 ring-1 ring-orange-400' : 'hover:bg-gray-100 opacity-60 hover:opacity-100'}`;
+
+  const submitReport = () => {
+    onReport({
+      reason,
+      details: details.trim() || undefined,
+      correctReference: correctReference.trim() || undefined,
+    });
+    setIsReporting(false);
+    setDetails('');
+    setCorrectReference('');
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-1 text-sm">
+        <button
+          onClick={() => onRate(rating === 'up' ? undefined : 'up')}
+          aria-pressed={rating === 'up'}
+          aria-label="Helpful answer"
+          title="Helpful"
+          className={thumbClass(rating === 'up')}
+        >
+          👍
+        </button>
+        <button
+          onClick={() => onRate(rating === 'down' ? undefined : 'down')}
+          aria-pressed={rating === 'down'}
+          aria-label="Unhelpful answer"
+          title="Not helpful"
+          className={thumbClass(rating === 'down')}
+        >
+          👎
+        </button>
+        {reported ? (
+          <span className="ml-2 text-xs text-gray-500">🚩 Reported — thank you</span>
+        ) : (
+          <button
+            onClick={() => setIsReporting(open => !open)}
+            aria-expanded={isReporting}
+            className="ml-2 text-xs text-gray-500 hover:text-red-600 hover:underline"
+          >
+            Report inaccuracy
+          </button>
+        )}
+      </div>
+
+      {isReporting && !reported && (
+        <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2 text-sm">
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as InaccuracyReport['reason'])}
+            aria-label="What is wrong"
+            className="w-full p-2 border border-gray-300 rounded bg-white"
+          >
+            {REASONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            value={correctReference}
+            onChange={(e) => setCorrectReference(e.target.value)}
+            placeholder="Correct discourse, e.g. Sarangpur-5 (optional)"
+            maxLength={100}
+            className="w-full p-2 border border-gray-300 rounded"
+          />
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="What should the answer say? (optional)"
+            rows={3}
+            maxLength={2000}
+            className="w-full p-2 border border-gray-300 rounded"
+          />
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setIsReporting(false)} className="px-3 py-1 text-gray-600 hover:underline">
+              Cancel
+            </button>
+            <button onClick={submitReport} className="px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700">
+              Send report
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { FeedbackRating, InaccuracyReport } from '@/lib/api';
+import { buildAnswerAudioFile } from '@/lib/audio/export';
+import type { HistoryEntry, StorageUsage } from '@/lib/history/store';
+import { createLogger } from '@/lib/logger';
+import { copyText, downloadBlob, formatQuestionAndAnswer, shareText } from '@/lib/share';
+import ExportMenu from './ExportMenu';
+import FeedbackControls from './FeedbackControls';
+
+const log = createLogger('history');
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  usage: StorageUsage | null;
+  onReplay: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+  onFeedback: (entry: HistoryEntry, feedback: { rating?: FeedbackRating; report?: InaccuracyReport }) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+const NOTICE_MS = 2500;
+
+const audioFilename = (entry: HistoryEntry, extension: string) => {
+  const date = new Date(entry.timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `vachanamrut-answer-${stamp}.${extension}`;
+};
+
+export default function HistoryPanel({ entries, usage, onReplay, onDelete, onClearAll, onFeedback }: HistoryPanelProps) {
+  // Short confirmation shown next to the entry an action was used on
+  const [notice, setNotice] = useState<{ id: string; text: string } | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  const showNotice = (id: string, text: string) => {
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    setNotice({ id, text });
+    noticeTimerRef.current = setTimeout(() => setNotice(null), NOTICE_MS);
+  };
+
+  const handleCopy = async (entry: HistoryEntry) => {
+    try {
+      await copyText(entry.answer);
+      showNotice(entry.id, 'Answer copied');
+    } catch (err) {
+      log.warn('Failed to copy answer', err);
+      showNotice(entry.id, 'Could not copy');
+    }
+  };
+
+  const handleShare = async (entry: HistoryEntry) => {
+    try {
+      const result = await shareText('Vachanamrut Companion', formatQuestionAndAnswer(entry.query, entry.answer));
+      if (result === 'copied') showNotice(entry.id, 'Copied to clipboard for sharing');
+    } catch (err) {
+      log.warn('Failed to share answer', err);
+      showNotice(entry.id, 'Could not share');
+    }
+  };
+
+  const handleDownload = async (entry: HistoryEntry) => {
+    try {
+      const { blob, extension } = await buildAnswerAudioFile(entry.ttsParts);
+      downloadBlob(blob, audioFilename(entry, extension));
+    } catch (err) {
+      log.error('Failed to build answer audio', err);
+      showNotice(entry.id, 'Could not create audio file');
+    }
+  };
+
+  const actionClass = 'w-8 h-8 rounded-full text-orange-600 hover:bg-orange-50 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  const usedPercent = usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-2xl font-bold text-gray-800 flex items-center">
+          📜 History
+        </h3>
+        <div className="flex items-center gap-4">
+          <ExportMenu entries={entries} />
+          <button
+            onClick={() => {
+              if (window.confirm('Delete all saved questions, answers and audio?')) onClearAll();
+            }}
+            className="text-sm text-red-600 hover:text-red-700 hover:underline"
+          >
+            Clear all
+          </button>
+        </div>
+      </div>
+
+      {/* Storage quota */}
+      {usage && usage.quota > 0 && (
+        <div className="mb-4">
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${usedPercent > 80 ? 'bg-red-500' : 'bg-orange-400'}`}
+              style={{ width: `${Math.max(usedPercent, 1)}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Using {formatBytes(usage.usage)} of {formatBytes(usage.quota)} available storage
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-4 max-h-96 overflow-y-auto">
+        {entries.map((item, index) => (
+          <div key={item.id} className="border-b border-gray-200 pb-4 last:border-b-0">
+            <div className="mb-2 flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm text-blue-600 font-semibold">
+                  Question {index + 1}:
+                  <span className="ml-2 text-xs text-gray-400 font-normal">
+                    {new Date(item.timestamp).toLocaleString()} · {item.language}
+                  </span>
+                </p>
+                <p className="text-gray-700">{item.query}</p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => onReplay(item)}
+                  title={item.ttsParts.length === 0 ? 'Generate and play audio' : 'Play saved audio'}
+                  className={actionClass}
+                  aria-label="Play answer"
+                >
+                  ▶
+                </button>
+                <button onClick={() => handleCopy(item)} title="Copy answer" className={actionClass} aria-label="Copy answer">
+                  📋
+                </button>
+                <button
+                  onClick={() => handleDownload(item)}
+                  disabled={item.ttsParts.length === 0}
+                  title={item.ttsParts.length === 0 ? 'Play the answer once to create its audio' : 'Download audio'}
+                  className={actionClass}
+                  aria-label="Download audio"
+                >
+                  ⬇
+                </button>
+                <button onClick={() => handleShare(item)} title="Share" className={actionClass} aria-label="Share answer">
+                  🔗
+                </button>
+                <button
+                  onClick={() => onDelete(item.id)}
+                  title="Delete this entry"
+                  className="w-8 h-8 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  aria-label="Delete entry"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            {notice?.id === item.id && (
+              <p className="text-xs text-green-600 mb-2" role="status">{notice.text}</p>
+            )}
+            <div>
+              <p className="text-sm text-orange-600 font-semibold">Answer:</p>
+              <p className="text-gray-700 text-sm whitespace-pre-wrap">{item.answer}</p>
+              <FeedbackControls
+                rating={item.rating}
+                reported={item.reported}
+                onRate={(rating) => onFeedback(item, { rating })}
+                onReport={(report) => onFeedback(item, { report })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { LANGUAGES } from '@/lib/language';
+
+interface LanguageSelectorProps {
+  value: string;
+  onChange: (code: string) => void;
+}
+
+export default function LanguageSelector({ value, onChange }: LanguageSelectorProps) {
+  return (
+    <div className="flex justify-center gap-2 mb-6" role="radiogroup" aria-label="Language">
+      {LANGUAGES.map(language => {
+        const selected = language.code === value;
+        return (
+          <button
+            key={language.code}
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(language.code)}
+            className={`px-4 py-1.5 rounded-full text-sm font-semibold border transition-colors ${
+              selected
+                ? 'bg-orange-600 text-white border-orange-600'
+                : 'bg-white text-gray-600 border-gray-300 hover:border-orange-400'
+            }`}
+          >
+            {language.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
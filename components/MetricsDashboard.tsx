@@ -0,0 +1,162 @@
+'use client';
+
+import type { MetricStage, MetricsSummary } from '@/lib/api';
+
+interface MetricsDashboardProps {
+  summary: MetricsSummary;
+}
+
+const STAGE_LABELS: Record<MetricStage, string> = {
+  recognition: 'Speech recognition',
+  gemini: 'Answer',
+  tts: 'Speech synthesis (per chunk)',
+  'first-audio': 'Time to first audio',
+};
+
+const formatMs = (ms: number | null) => {
+  if (ms === null) return '–';
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const formatCount = (n: number) => n.toLocaleString();
+
+const formatBucket = (start: number, bucketMs: number) => {
+  const date = new Date(start);
+  return bucketMs < 24 * 60 * 60 * 1000
+    ? date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white rounded-2xl shadow p-4">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-bold text-gray-800 tabular-nums">{value}</p>
+      {detail && <p className="text-xs text-gray-400 mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+// Bars scaled to the largest bucket; each bar's tooltip has the exact numbers
+function Timeline({ summary }: MetricsDashboardProps) {
+  const { timeline, bucketMs } = summary;
+  const maxRequests = Math.max(1, ...timeline.map(bucket => bucket.requests));
+  const maxLatency = Math.max(1, ...timeline.map(bucket => bucket.geminiP95Ms ?? 0));
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-4">
+      <h2 className="font-semibold text-gray-800 mb-3">Over time</h2>
+      <p className="text-xs text-gray-500 mb-1">Server requests (errors in red)</p>
+      <div className="flex items-end gap-px h-24 mb-4">
+        {timeline.map(bucket => (
+          <div
+            key={bucket.start}
+            className="flex-1 flex flex-col justify-end bg-gray-50"
+            title={`${formatBucket(bucket.start, bucketMs)}: ${bucket.requests} requests, ${bucket.errors} errors, ${bucket.cacheHits} cache hits, ${formatCount(bucket.tokens)} tokens`}
+          >
+            <div className="bg-red-400" style={{ height: `${(Math.min(bucket.errors, bucket.requests) / maxRequests) * 100}%` }} />
+            <div
+              className="bg-orange-400"
+              style={{ height: `${(Math.max(0, bucket.requests - bucket.errors) / maxRequests) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-1">Answer p95 latency</p>
+      <div className="flex items-end gap-px h-16">
+        {timeline.map(bucket => (
+          <div
+            key={bucket.start}
+            className="flex-1 flex flex-col justify-end bg-gray-50"
+            title={`${formatBucket(bucket.start, bucketMs)}: p95 ${formatMs(bucket.geminiP95Ms)}`}
+          >
+            <div className="bg-blue-400" style={{ height: `${((bucket.geminiP95Ms ?? 0) / maxLatency) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      {timeline.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-400 mt-1">
+          <span>{formatBucket(timeline[0].start, bucketMs)}</span>
+          <span>{formatBucket(timeline[timeline.length - 1].start, bucketMs)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Latency percentiles per stage, cache hit rate, token usage and errors
+export default function MetricsDashboard({ summary }: MetricsDashboardProps) {
+  const { stages, tokens, errors, cacheHitRate } = summary;
+  const totalErrors = errors.reduce((sum, entry) => sum + entry.count, 0);
+  const answers = stages.find(stage => stage.stage === 'gemini' && stage.source === 'server');
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Answers served" value={formatCount(answers?.count ?? 0)} />
+        <StatCard
+          label="Cache hit rate"
+          value={cacheHitRate === null ? '–' : `${Math.round(cacheHitRate * 100)}%`}
+          detail="Server-side answer cache"
+        />
+        <StatCard
+          label="Tokens"
+          value={formatCount(tokens.totalTokens)}
+          detail={`${formatCount(tokens.promptTokens)} in · ${formatCount(tokens.outputTokens)} out`}
+        />
+        <StatCard label="Errors" value={formatCount(totalErrors)} />
+      </div>
+
+      <div className="bg-white rounded-2xl shadow p-4 overflow-x-auto">
+        <h2 className="font-semibold text-gray-800 mb-3">Latency by stage</h2>
+        {stages.length === 0 ? (
+          <p className="text-sm text-gray-500">No measurements in this period yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-4 font-medium">Stage</th>
+                <th className="py-1 pr-4 font-medium">Measured in</th>
+                <th className="py-1 pr-4 font-medium text-right">Count</th>
+                <th className="py-1 pr-4 font-medium text-right">p50</th>
+                <th className="py-1 pr-4 font-medium text-right">p95</th>
+                <th className="py-1 font-medium text-right">Errors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stages.map(stage => (
+                <tr key={`${stage.source}-${stage.stage}`} className="border-t border-gray-100 tabular-nums">
+                  <td className="py-1 pr-4 text-gray-800">{STAGE_LABELS[stage.stage]}</td>
+                  <td className="py-1 pr-4 text-gray-500">{stage.source === 'client' ? 'Browser' : 'Server'}</td>
+                  <td className="py-1 pr-4 text-right">{formatCount(stage.count)}</td>
+                  <td className="py-1 pr-4 text-right">{formatMs(stage.p50Ms)}</td>
+                  <td className="py-1 pr-4 text-right">{formatMs(stage.p95Ms)}</td>
+                  <td className={`py-1 text-right ${stage.errors > 0 ? 'text-red-600' : ''}`}>{formatCount(stage.errors)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-gray-400 mt-2">Percentiles leave out failures and cache hits.</p>
+      </div>
+
+      <Timeline summary={summary} />
+
+      {errors.length > 0 && (
+        <div className="bg-white rounded-2xl shadow p-4">
+          <h2 className="font-semibold text-gray-800 mb-3">Errors</h2>
+          <ul className="text-sm space-y-1">
+            {errors.map(entry => (
+              <li key={`${entry.source}-${entry.stage}-${entry.error}`} className="flex justify-between gap-4">
+                <span className="text-gray-700">
+                  {STAGE_LABELS[entry.stage]} ({entry.source === 'client' ? 'browser' : 'server'}): <code>{entry.error}</code>
+                </span>
+                <span className="tabular-nums text-red-600">{formatCount(entry.count)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import type { QueuedQuestion } from '@/hooks/useOfflineQueue';
+
+interface OfflineQueuePanelProps {
+  queue: QueuedQuestion[];
+  // Epoch milliseconds of the next automatic retry, if one is scheduled
+  retryAt: number | null;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// Lists queued questions that could not be sent yet, with why, so the user can
+// retry or drop them. Questions still waiting their first turn aren't shown.
+export default function OfflineQueuePanel({ queue, retryAt, onRetry, onRemove }: OfflineQueuePanelProps) {
+  const troubled = queue.filter(item => item.error);
+  if (troubled.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6 rounded" role="status">
+      <p className="text-amber-800 font-semibold">📴 Queued questions that didn&apos;t go through</p>
+      <ul className="mt-2 space-y-2">
+        {troubled.map(item => (
+          <li key={item.id} className="flex items-start justify-between gap-3 text-sm">
+            <div className="min-w-0">
+              <p className="text-gray-800 break-words">{item.query}</p>
+              <p className={item.failed ? 'text-red-700' : 'text-amber-700'}>
+                {item.failed
+                  ? `Not sent: ${item.error}`
+                  : `${item.error} · retrying${retryAt ? ` at ${new Date(retryAt).toLocaleTimeString()}` : ''}`}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              {item.failed && (
+                <button
+                  onClick={() => onRetry(item.id)}
+                  className="px-3 py-1 rounded-full border border-gray-300 hover:border-orange-500 hover:text-orange-600 transition-colors"
+                >
+                  Retry
+                </button>
+              )}
+              <button
+                onClick={() => onRemove(item.id)}
+                className="px-3 py-1 rounded-full border border-gray-300 hover:border-red-500 hover:text-red-600 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { MAX_QUERY_CHARS } from '@/lib/api';
+import type { PinAnswerRequest } from '@/lib/api';
+import { LANGUAGES } from '@/lib/language';
+
+interface PinAnswerFormProps {
+  // Resolves once the answer is pinned, then the form clears itself
+  onSubmit: (request: PinAnswerRequest) => Promise<void>;
+}
+
+// Discourse ids separated by commas, e.g. "Gadhada I-1, Sarangpur-5"
+const parseSources = (text: string) =>
+  text.split(',').map(id => id.trim()).filter(Boolean).map(id => ({ id }));
+
+// Curated answer for a frequently asked question. Cache lookups are per
+// language, so the answer is pinned for the language it is written in.
+export default function PinAnswerForm({ onSubmit }: PinAnswerFormProps) {
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState('');
+  const [language, setLanguage] = useState(LANGUAGES[0].code);
+  const [sources, setSources] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || !answer.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({ question: question.trim(), answer: answer.trim(), language, citations: parseSources(sources) });
+      setQuestion('');
+      setAnswer('');
+      setSources('');
+    } catch {
+      // The page reports the error; keep the fields so nothing is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full rounded-xl border border-gray-300 px-3 py-2 text-gray-800 focus:outline-none focus:ring-2 focus:ring-orange-400';
+
+  return (
+    <details className="bg-white rounded-2xl shadow p-4 mb-6">
+      <summary className="cursor-pointer select-none font-semibold text-gray-800">📌 Pin a curated answer</summary>
+      <form onSubmit={handleSubmit} className="mt-4 space-y-3 text-sm">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={MAX_QUERY_CHARS}
+          placeholder="Question, as listeners ask it"
+          aria-label="Question"
+          className={inputClass}
+        />
+        <textarea
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          rows={6}
+          placeholder="Answer"
+          aria-label="Answer"
+          className={inputClass}
+        />
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            aria-label="Answer language"
+            className="rounded-xl border border-gray-300 bg-white px-3 py-2 text-gray-700"
+          >
+            {LANGUAGES.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+          </select>
+          <input
+            value={sources}
+            onChange={(e) => setSources(e.target.value)}
+            placeholder="Sources, e.g. Gadhada I-1, Sarangpur-5"
+            aria-label="Sources"
+            className={`${inputClass} flex-1 min-w-48`}
+          />
+        </div>
+        <p className="text-xs text-gray-400">
+          A pinned answer replaces any saved answer to the same question, is never evicted and is kept when
+          listeners flag it (their feedback is still recorded).
+        </p>
+        <button
+          type="submit"
+          disabled={isSaving || !question.trim() || !answer.trim()}
+          className="px-4 py-2 rounded-xl bg-orange-600 text-white font-semibold hover:bg-orange-700 disabled:opacity-50 transition-colors"
+        >
+          {isSaving ? 'Pinning…' : 'Pin answer'}
+        </button>
+      </form>
+    </details>
+  );
+}
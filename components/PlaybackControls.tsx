@@ -0,0 +1,104 @@
+'use client';
+
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from '@/lib/audio/player';
+import type { PlaybackState } from '@/lib/audio/player';
+
+interface PlaybackControlsProps {
+  state: PlaybackState;
+  onPause: () => void;
+  onResume: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSeek: (seconds: number) => void;
+  onRateChange: (rate: number) => void;
+}
+
+const RATES = [0.75, 1, 1.25, 1.5, 1.75, 2].filter(rate => rate >= MIN_PLAYBACK_RATE && rate <= MAX_PLAYBACK_RATE);
+
+const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export default function PlaybackControls({
+  state,
+  onPause,
+  onResume,
+  onPrevious,
+  onNext,
+  onSeek,
+  onRateChange,
+}: PlaybackControlsProps) {
+  const isPaused = state.status === 'paused';
+  const buttonClass = 'w-10 h-10 rounded-full flex items-center justify-center bg-orange-100 text-orange-700 hover:bg-orange-200 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="bg-orange-50 rounded-xl p-4 mb-6">
+      {/* Progress */}
+      <div className="flex items-center gap-3 mb-3">
+        <span className="text-xs text-gray-600 tabular-nums w-10 text-right">{formatTime(state.position)}</span>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(state.duration, 0.1)}
+          step={0.1}
+          value={Math.min(state.position, state.duration)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-orange-600"
+          aria-label="Seek"
+        />
+        <span className="text-xs text-gray-600 tabular-nums w-10">
+          {state.durationKnown ? formatTime(state.duration) : '…'}
+        </span>
+      </div>
+
+      {/* Transport */}
+      <div className="flex items-center justify-center gap-3">
+        <button onClick={onPrevious} className={buttonClass} aria-label="Previous part">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M8.445 14.832A1 1 0 0010 14v-2.798l5.445 3.63A1 1 0 0017 14V6a1 1 0 00-1.555-.832L10 8.798V6a1 1 0 00-1.555-.832l-6 4a1 1 0 000 1.664l6 4z" />
+          </svg>
+        </button>
+        <button
+          onClick={isPaused ? onResume : onPause}
+          disabled={state.status === 'loading'}
+          className="w-12 h-12 rounded-full flex items-center justify-center bg-orange-600 text-white hover:bg-orange-700 transition-colors disabled:opacity-40"
+          aria-label={isPaused ? 'Resume' : 'Pause'}
+        >
+          {isPaused ? (
+            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+            </svg>
+          ) : (
+            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+            </svg>
+          )}
+        </button>
+        <button onClick={onNext} className={buttonClass} aria-label="Next part">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M4.555 5.168A1 1 0 003 6v8a1 1 0 001.555.832L10 11.202V14a1 1 0 001.555.832l6-4a1 1 0 000-1.664l-6-4A1 1 0 0010 6v2.798l-5.445-3.63z" />
+          </svg>
+        </button>
+
+        {/* Speed */}
+        <select
+          value={state.rate}
+          onChange={(e) => onRateChange(Number(e.target.value))}
+          className="ml-2 text-sm border border-orange-200 rounded-lg px-2 py-1 bg-white text-gray-700"
+          aria-label="Playback speed"
+        >
+          {RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}×</option>
+          ))}
+        </select>
+      </div>
+
+      {state.partCount > 1 && (
+        <p className="text-center text-xs text-gray-500 mt-2">
+          Part {state.partIndex + 1} of {state.partCount}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import type { HistoryEntry } from '@/lib/history/store';
+import { getLanguage } from '@/lib/language';
+import { TRANSCRIPT_TITLE, describeTranscriptDates } from '@/lib/transcript';
+
+interface PrintableTranscriptProps {
+  entries: HistoryEntry[];
+  onDone: () => void;
+}
+
+// Renders the transcript straight into <body> and opens the print dialog, where
+// "Save as PDF" produces the PDF. globals.css hides the rest of the page while
+// printing; the Gujarati and Devanagari fonts come from app/layout.tsx.
+// Each mount prints once, so remount (e.g. with a new key) to print again.
+export default function PrintableTranscript({ entries, onDone }: PrintableTranscriptProps) {
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      onDoneRef.current();
+    };
+    // Some browsers never fire afterprint, so also finish once print()
+    // returns, which is when the dialog closes
+    window.addEventListener('afterprint', finish, { once: true });
+    // Let the portal render before the dialog snapshots the page
+    const timer = setTimeout(() => {
+      window.print();
+      finish();
+    }, 100);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('afterprint', finish);
+    };
+  }, []);
+
+  return createPortal(
+    <article className="print-transcript">
+      <h1 className="text-2xl font-bold mb-1">{TRANSCRIPT_TITLE}</h1>
+      <p className="text-sm text-gray-600 mb-6">{describeTranscriptDates(entries)}</p>
+      {entries.map((entry, index) => (
+        <section key={entry.id} className="mb-6 break-inside-avoid">
+          <h2 className="text-lg font-semibold">
+            {index + 1}. {entry.query}
+          </h2>
+          <p className="text-xs text-gray-500 mb-2">
+            {new Date(entry.timestamp).toLocaleString()} · {getLanguage(entry.language).name}
+          </p>
+          <p className="whitespace-pre-wrap leading-relaxed">{entry.answer}</p>
+          {entry.citations && entry.citations.length > 0 && (
+            <p className="text-sm mt-2">
+              <strong>Sources:</strong> {entry.citations.map(citation => citation.id).join(', ')}
+            </p>
+          )}
+        </section>
+      ))}
+    </article>,
+    document.body,
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { MAX_QUERY_CHARS } from '@/lib/api';
+
+interface QuestionInputProps {
+  onSubmit: (question: string) => void;
+  speakAnswers: boolean;
+  onSpeakAnswersChange: (speak: boolean) => void;
+  // Text-first layout when voice input is unavailable
+  prominent?: boolean;
+}
+
+export default function QuestionInput({ onSubmit, speakAnswers, onSpeakAnswersChange, prominent = false }: QuestionInputProps) {
+  const [text, setText] = useState('');
+
+  const submit = () => {
+    const question = text.trim();
+    if (!question) return;
+    onSubmit(question);
+    setText('');
+  };
+
+  // Enter sends; Shift+Enter inserts a newline. Ignore Enter while an IME
+  // (e.g. a Gujarati keyboard) is still composing a character.
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex gap-2 items-end">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={prominent ? 3 : 1}
+          maxLength={MAX_QUERY_CHARS}
+          placeholder="Type your question in English or ગુજરાતી..."
+          className="flex-1 resize-none rounded-xl border border-gray-300 px-4 py-3 text-gray-800 focus:outline-none focus:ring-2 focus:ring-orange-400"
+          aria-label="Type your question"
+        />
+        <button
+          onClick={submit}
+          disabled={!text.trim()}
+          className="px-5 py-3 rounded-xl bg-orange-600 text-white font-semibold hover:bg-orange-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Ask
+        </button>
+      </div>
+      <label className="flex items-center gap-2 mt-2 text-sm text-gray-600 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={speakAnswers}
+          onChange={(e) => onSpeakAnswersChange(e.target.checked)}
+          className="accent-orange-600"
+        />
+        Read answers aloud for typed questions
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface RateLimitNoticeProps {
+  message: string;
+  // Epoch milliseconds when asking again should succeed
+  until: number;
+  onExpire: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Counts down until the server accepts questions again, then hides itself
+export default function RateLimitNotice({ message, until, onExpire }: RateLimitNoticeProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = until - now;
+
+  useEffect(() => {
+    if (remaining <= 0) {
+      onExpire();
+      return;
+    }
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(1000, remaining));
+    return () => clearTimeout(timer);
+  }, [remaining, onExpire]);
+
+  if (remaining <= 0) return null;
+
+  return (
+    <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6 rounded" role="status">
+      <p className="text-amber-800">⏳ {message}</p>
+      <p className="text-amber-700 text-sm mt-1">
+        You can ask again in <span className="font-mono font-semibold">{formatCountdown(remaining)}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('app');
+
+// Registers public/sw.js. Skipped in development, where a caching worker
+// would serve stale bundles over hot reloads.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      log.error('Service worker registration failed', err);
+    });
+  }, []);
+
+  return null;
+}
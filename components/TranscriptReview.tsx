@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+
+interface TranscriptReviewProps {
+  transcript: string;
+  onSend: (question: string) => void;
+  onDiscard: () => void;
+}
+
+// Lets the user correct a misrecognized question before it is sent
+export default function TranscriptReview({ transcript, onSend, onDiscard }: TranscriptReviewProps) {
+  const [text, setText] = useState(transcript);
+
+  return (
+    <div className="bg-blue-50 p-4 rounded-lg border-l-4 border-blue-500">
+      <p className="text-sm text-blue-600 font-semibold mb-2">Check your question before sending:</p>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={2}
+        autoFocus
+        className="w-full resize-none rounded-lg border border-blue-200 px-3 py-2 text-gray-800 bg-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+        aria-label="Recognized question"
+      />
+      <div className="flex justify-end gap-2 mt-2">
+        <button
+          onClick={onDiscard}
+          className="px-4 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-blue-100"
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => text.trim() && onSend(text.trim())}
+          disabled={!text.trim()}
+          className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
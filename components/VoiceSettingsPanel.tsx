@@ -0,0 +1,78 @@
+'use client';
+
+import { MAX_TTS_STYLE_CHARS } from '@/lib/api';
+import { LANGUAGES } from '@/lib/language';
+import { CUSTOM_STYLE_ID, SPEAKING_STYLES, VOICES } from '@/lib/voice';
+import type { VoiceSettings } from '@/lib/voice';
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  // Speaks a short sample in the language's current voice and style
+  onPreview: (languageCode: string) => void;
+  isPreviewDisabled?: boolean;
+}
+
+// Voice per answer language and the speaking style for every answer. Saved
+// audio in another voice or style is synthesized again when next played.
+export default function VoiceSettingsPanel({ settings, onChange, onPreview, isPreviewDisabled }: VoiceSettingsPanelProps) {
+  const setVoice = (languageCode: string, voice: string) => {
+    const voices = { ...settings.voices };
+    if (voice) voices[languageCode] = voice;
+    else delete voices[languageCode];
+    onChange({ ...settings, voices });
+  };
+
+  return (
+    <details className="-mt-4 mb-6 text-sm text-gray-600">
+      <summary className="cursor-pointer select-none hover:text-gray-800">🎙️ Voice &amp; speaking style</summary>
+      <div className="mt-3 space-y-3 rounded-xl border border-gray-200 p-4">
+        <label className="flex flex-wrap items-center gap-2">
+          <span className="w-28">Speaking style</span>
+          <select
+            value={settings.styleId}
+            onChange={(e) => onChange({ ...settings, styleId: e.target.value })}
+            className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-gray-700"
+          >
+            {SPEAKING_STYLES.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+            <option value={CUSTOM_STYLE_ID}>Custom…</option>
+          </select>
+        </label>
+        {settings.styleId === CUSTOM_STYLE_ID && (
+          <input
+            value={settings.customStyle}
+            onChange={(e) => onChange({ ...settings, customStyle: e.target.value })}
+            maxLength={MAX_TTS_STYLE_CHARS}
+            placeholder="e.g. Read this softly, like a bedtime story"
+            aria-label="Custom speaking style"
+            className="w-full rounded-lg border border-gray-300 px-3 py-1 text-gray-800 focus:outline-none focus:ring-2 focus:ring-orange-400"
+          />
+        )}
+        {LANGUAGES.map(language => (
+          <div key={language.code} className="flex flex-wrap items-center gap-2">
+            <span className="w-28">{language.label}</span>
+            <select
+              value={settings.voices[language.code] ?? ''}
+              onChange={(e) => setVoice(language.code, e.target.value)}
+              aria-label={`${language.name} voice`}
+              className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-gray-700"
+            >
+              <option value="">Default ({language.voice})</option>
+              {VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name} · {voice.tone}</option>)}
+            </select>
+            <button
+              onClick={() => onPreview(language.code)}
+              disabled={isPreviewDisabled}
+              className="px-3 py-1 rounded-full border border-gray-300 hover:border-orange-500 hover:text-orange-600 disabled:opacity-50 transition-colors"
+            >
+              ▶ Preview
+            </button>
+          </div>
+        ))}
+        <p className="text-xs text-gray-400">
+          Saved answers spoken in a different voice or style are synthesized again the next time they play.
+        </p>
+      </div>
+    </details>
+  );
+}
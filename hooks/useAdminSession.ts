@@ -0,0 +1,54 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { BackendReportedError } from '@/lib/api';
+import { createAdminClient } from '@/lib/api/admin';
+
+const STORAGE_KEY = 'vachanamrut:adminToken';
+
+// Admin sign-in shared by the /admin pages. The token is kept in
+// sessionStorage so it is forgotten with the tab, and read after mount so the
+// first render matches the server's.
+export function useAdminSession() {
+  const [token, setTokenState] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loginError, setLoginError] = useState('');
+  const client = useMemo(() => (token ? createAdminClient({ token }) : null), [token]);
+
+  useEffect(() => {
+    try {
+      setTokenState(window.sessionStorage.getItem(STORAGE_KEY));
+    } catch {
+      // Storage disabled: the token lives only in memory
+    }
+    setIsLoaded(true);
+  }, []);
+
+  const setToken = useCallback((next: string | null) => {
+    setTokenState(next);
+    try {
+      if (next) window.sessionStorage.setItem(STORAGE_KEY, next);
+      else window.sessionStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Ignore; see above
+    }
+  }, []);
+
+  const signIn = useCallback((next: string) => {
+    setLoginError('');
+    setToken(next);
+  }, [setToken]);
+
+  const signOut = useCallback(() => setToken(null), [setToken]);
+
+  // Signs out when the server rejected the token. Returns whether it did, so
+  // callers only report other errors.
+  const handleAuthError = useCallback((err: unknown) => {
+    if (!(err instanceof BackendReportedError && err.status === 401)) return false;
+    setToken(null);
+    setLoginError(err.message);
+    return true;
+  }, [setToken]);
+
+  return { client, isLoaded, loginError, signIn, signOut, handleAuthError };
+}
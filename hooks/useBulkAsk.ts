@@ -0,0 +1,186 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RateLimitedError, isAbortError } from '@/lib/api';
+import type { BackendClient, TtsPart } from '@/lib/api';
+import { createRatePacer } from '@/lib/concurrency';
+import { createHistoryId } from '@/lib/history/store';
+import type { HistoryEntry } from '@/lib/history/store';
+import type { LanguageOption } from '@/lib/language';
+import { createLogger } from '@/lib/logger';
+import { splitIntoChunks } from '@/lib/tts/chunk';
+import type { SpeechVoice } from '@/lib/voice';
+
+const log = createLogger('bulk');
+
+// Below the Gemini free tier's 60 requests per minute, leaving room for
+// questions asked by hand while a batch runs. TTS calls count too.
+const BULK_REQUESTS_PER_MINUTE = 50;
+
+// A rate limit that clears within this long is waited out; longer ones (a
+// spent daily quota) fail the question instead
+const MAX_RATE_LIMIT_WAIT_MS = 2 * 60_000;
+
+export type BulkItemStatus = 'pending' | 'asking' | 'speaking' | 'done' | 'failed' | 'cancelled';
+
+export interface BulkItem {
+  id: string;
+  query: string;
+  status: BulkItemStatus;
+  error?: string;
+  // Set when the answer arrived but its audio could not be prepared
+  warning?: string;
+}
+
+export interface BulkOptions {
+  language: LanguageOption;
+  // Voice and style to speak the answers in
+  speech: SpeechVoice;
+  // Synthesize each answer's audio too, so it plays instantly later
+  withAudio: boolean;
+}
+
+interface UseBulkAskOptions {
+  backend: BackendClient;
+  onAnswered: (entry: HistoryEntry) => void;
+}
+
+// Asks a list of questions one after another, paced to stay inside the rate
+// limit, and hands every answer to onAnswered for the history
+export function useBulkAsk({ backend, onAnswered }: UseBulkAskOptions) {
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const optionsRef = useRef<BulkOptions | null>(null);
+  const onAnsweredRef = useRef(onAnswered);
+  onAnsweredRef.current = onAnswered;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const process = useCallback(async (targets: BulkItem[], { language, speech, withAudio }: BulkOptions) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+    const pacer = createRatePacer(BULK_REQUESTS_PER_MINUTE);
+    const update = (id: string, patch: Partial<BulkItem>) =>
+      setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+    setIsRunning(true);
+
+    // Makes one paced request, waiting and trying again when the server says
+    // the batch is going too fast
+    const paced = async <T>(request: () => Promise<T>): Promise<T> => {
+      for (;;) {
+        await pacer.wait(signal);
+        try {
+          return await request();
+        } catch (err) {
+          const wait = err instanceof RateLimitedError ? err.retryAfterMs : undefined;
+          if (wait === undefined || wait > MAX_RATE_LIMIT_WAIT_MS) throw err;
+          log.warn('Rate limited, waiting', { seconds: Math.round(wait / 1000) });
+          pacer.pause(wait);
+        }
+      }
+    };
+
+    // Synthesizes an answer chunk by chunk; resolves with [] on failure
+    const prepareAudio = async (item: BulkItem, answer: string): Promise<TtsPart[]> => {
+      update(item.id, { status: 'speaking' });
+      const chunks = splitIntoChunks(answer);
+      const timestamp = Date.now();
+      const parts: TtsPart[] = [];
+      try {
+        for (const [index, chunk] of chunks.entries()) {
+          const part = await paced(() => backend.synthesizeSpeech(
+            { text: chunk, language: language.code, ...speech },
+            { signal },
+          ));
+          parts.push(part);
+          backend.saveAudio({
+            audioBase64: part.audio,
+            mimeType: part.mimeType,
+            originalMimeType: part.originalMimeType,
+            question: item.query,
+            answer,
+            language: language.code,
+            ...speech,
+            index,
+            partCount: chunks.length,
+            timestamp,
+          }).catch(err => log.warn('Failed to save audio to the server history', err));
+        }
+        return parts;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        log.error('Audio failed', { question: item.query, error: err });
+        update(item.id, { warning: 'Answer saved without audio' });
+        return [];
+      }
+    };
+
+    try {
+      for (const item of targets) {
+        update(item.id, { status: 'asking', error: undefined, warning: undefined });
+        try {
+          const { answer, fromCache, ttsParts, citations } = await paced(() => backend.askGemini(
+            { query: item.query, language: language.code, ...speech },
+            { signal },
+          ));
+          let parts = fromCache ? ttsParts : [];
+          if (withAudio && parts.length === 0) parts = await prepareAudio(item, answer);
+
+          onAnsweredRef.current({
+            id: createHistoryId(),
+            query: item.query,
+            answer,
+            timestamp: Date.now(),
+            language: language.code,
+            ttsParts: parts,
+            ...speech,
+            citations,
+            fromCache,
+          });
+          update(item.id, { status: 'done' });
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          update(item.id, { status: 'failed', error: err instanceof Error ? err.message : 'Failed' });
+        }
+      }
+    } catch (err) {
+      if (!isAbortError(err)) throw err;
+      // Everything not yet answered stays available to retry
+      setItems(prev => prev.map(item =>
+        item.status === 'pending' || item.status === 'asking' || item.status === 'speaking'
+          ? { ...item, status: 'cancelled' }
+          : item));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [backend]);
+
+  const start = useCallback((questions: string[], options: BulkOptions) => {
+    if (controllerRef.current) return;
+    const next = questions.map(query => ({ id: createHistoryId(), query, status: 'pending' as const }));
+    optionsRef.current = options;
+    setItems(next);
+    void process(next, options);
+  }, [process]);
+
+  // Runs the failed and cancelled questions again with the same options
+  const retry = useCallback(() => {
+    const options = optionsRef.current;
+    if (controllerRef.current || !options) return;
+    const targets = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+    if (targets.length === 0) return;
+    setItems(prev => prev.map(item => (targets.includes(item) ? { ...item, status: 'pending' } : item)));
+    void process(targets, options);
+  }, [items, process]);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  const clear = useCallback(() => {
+    if (!controllerRef.current) setItems([]);
+  }, []);
+
+  return { items, isRunning, start, retry, cancel, clear };
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VoiceActivityDetector } from '@/lib/audio/vad';
+import { CONVERSATION_IDLE_TIMEOUT_MS } from '@/lib/conversation';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('recognition');
+
+interface ConversationModeOptions {
+  // Current page state; the mode re-arms the mic when all of these are false
+  isListening: boolean;
+  isProcessing: boolean;
+  isSpeaking: boolean;
+  // True while something else (e.g. transcript review) needs the user
+  isBlocked: boolean;
+  // Starts a new recognition session
+  listen: () => void;
+  // Interrupts the answer being spoken and starts listening
+  bargeIn: () => void;
+}
+
+// Delay before the mic re-arms, so the end of an answer is not picked up
+const REARM_DELAY_MS = 400;
+
+// Hands-free loop: once enabled, the mic re-arms after every answer, and
+// talking over an answer interrupts it. Turns itself off after a minute with
+// no question so it doesn't listen forever.
+export function useConversationMode({
+  isListening,
+  isProcessing,
+  isSpeaking,
+  isBlocked,
+  listen,
+  bargeIn,
+}: ConversationModeOptions) {
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [endReason, setEndReason] = useState('');
+  const lastActivityRef = useRef(0);
+  const callbacksRef = useRef({ listen, bargeIn });
+  callbacksRef.current = { listen, bargeIn };
+
+  const markActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  const enable = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    setEndReason('');
+    setIsEnabled(true);
+  }, []);
+
+  const disable = useCallback((reason = '') => {
+    setEndReason(reason);
+    setIsEnabled(false);
+  }, []);
+
+  // Idle time counts from when the mic is free again, not from the question,
+  // so a long answer doesn't end the conversation as soon as it finishes.
+  // Declared before the re-arm effect so it runs first.
+  const isBusy = isProcessing || isSpeaking || isBlocked;
+  useEffect(() => {
+    if (!isBusy) lastActivityRef.current = Date.now();
+  }, [isBusy]);
+
+  // Re-arm the mic whenever the page goes idle
+  useEffect(() => {
+    if (!isEnabled || isListening || isProcessing || isSpeaking || isBlocked) return;
+
+    if (Date.now() - lastActivityRef.current > CONVERSATION_IDLE_TIMEOUT_MS) {
+      disable('Conversation mode ended after a minute without a question.');
+      return;
+    }
+
+    const timer = setTimeout(() => callbacksRef.current.listen(), REARM_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isEnabled, isListening, isProcessing, isSpeaking, isBlocked, disable]);
+
+  // Barge-in: watch the mic while an answer is playing
+  useEffect(() => {
+    if (!isEnabled || !isSpeaking) return;
+
+    const detector = new VoiceActivityDetector({
+      onSpeech: () => {
+        log.info('Voice detected during playback, interrupting the answer');
+        lastActivityRef.current = Date.now();
+        callbacksRef.current.bargeIn();
+      },
+    });
+    detector.start().catch((err) => {
+      // Barge-in is a nicety; the loop still works without it
+      log.warn('Voice activity detection unavailable', err);
+    });
+    return () => detector.stop();
+  }, [isEnabled, isSpeaking]);
+
+  return { isEnabled, endReason, enable, disable, markActivity };
+}
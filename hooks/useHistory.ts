@@ -0,0 +1,91 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  getStorageUsage,
+  isHistoryStoreAvailable,
+  listHistory,
+  putHistoryEntry,
+} from '@/lib/history/store';
+import type { HistoryEntry, StorageUsage } from '@/lib/history/store';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('history');
+
+// React state mirror of the IndexedDB history. The UI updates immediately;
+// writes go to IndexedDB in the background and failures are only logged, so a
+// browser without storage (private mode) still has in-memory history.
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const entriesRef = useRef<HistoryEntry[]>([]);
+
+  const commit = useCallback((next: HistoryEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  const refreshUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch(err => log.warn('Failed to estimate storage usage', err));
+  }, []);
+
+  const persist = useCallback((task: () => Promise<unknown>, action: string) => {
+    if (!isHistoryStoreAvailable()) return;
+    task()
+      .then(refreshUsage)
+      .catch(err => log.error(`Failed to ${action} history`, err));
+  }, [refreshUsage]);
+
+  useEffect(() => {
+    if (!isHistoryStoreAvailable()) {
+      setIsLoaded(true);
+      return;
+    }
+    let cancelled = false;
+    listHistory()
+      .then((stored) => {
+        if (cancelled) return;
+        // Keep anything added before the load finished
+        const pending = entriesRef.current.filter(entry => !stored.some(s => s.id === entry.id));
+        commit([...stored, ...pending]);
+      })
+      .catch(err => log.error('Failed to load history', err))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    refreshUsage();
+    return () => {
+      cancelled = true;
+    };
+  }, [commit, refreshUsage]);
+
+  const addEntry = useCallback((entry: HistoryEntry) => {
+    commit([...entriesRef.current, entry]);
+    persist(() => putHistoryEntry(entry), 'save');
+  }, [commit, persist]);
+
+  const updateEntry = useCallback((id: string, patch: Partial<Omit<HistoryEntry, 'id'>>) => {
+    const current = entriesRef.current.find(entry => entry.id === id);
+    if (!current) return;
+    const updated = { ...current, ...patch };
+    commit(entriesRef.current.map(entry => (entry.id === id ? updated : entry)));
+    persist(() => putHistoryEntry(updated), 'update');
+  }, [commit, persist]);
+
+  const removeEntry = useCallback((id: string) => {
+    commit(entriesRef.current.filter(entry => entry.id !== id));
+    persist(() => deleteHistoryEntry(id), 'delete');
+  }, [commit, persist]);
+
+  const clearAll = useCallback(() => {
+    commit([]);
+    persist(clearHistory, 'clear');
+  }, [commit, persist]);
+
+  return { entries, usage, isLoaded, addEntry, updateEntry, removeEntry, clearAll };
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getLogEntries, subscribeToLog } from '@/lib/logger';
+import type { LogEntry } from '@/lib/logger';
+
+const NO_ENTRIES: readonly LogEntry[] = [];
+
+// The logger's recent entries as React state. Empty during the server render.
+export function useLogEntries() {
+  return useSyncExternalStore(subscribeToLog, getLogEntries, () => NO_ENTRIES);
+}
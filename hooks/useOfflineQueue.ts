@@ -0,0 +1,135 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BackendReportedError, HttpError, RateLimitedError } from '@/lib/api';
+import { createHistoryId } from '@/lib/history/store';
+import { createLogger } from '@/lib/logger';
+import { usePersistentState } from './usePersistentState';
+
+const log = createLogger('api');
+
+export interface QueuedQuestion {
+  id: string;
+  query: string;
+  language: string;
+  timestamp: number;
+  // Failed attempts so far, and the latest failure
+  attempts?: number;
+  error?: string;
+  // Set when the question cannot be answered as asked, or kept failing; it
+  // stays queued for the user to retry or remove but is no longer tried
+  failed?: boolean;
+}
+
+interface UseOfflineQueueOptions {
+  isOnline: boolean;
+  // Answers one queued question; a rejection is retried or set aside (see below)
+  answer: (question: QueuedQuestion) => Promise<void>;
+  // Called after a flush that answered at least one question
+  onFlushed?: (count: number) => void;
+}
+
+// First wait after a failure; doubles with every attempt
+const RETRY_BASE_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+// Transient failures (network, 5xx) before a question is set aside
+const MAX_ATTEMPTS = 5;
+
+// The server rejected the question itself, so asking again won't help
+const isPermanentFailure = (err: unknown) =>
+  (err instanceof HttpError || err instanceof BackendReportedError)
+  && !(err instanceof RateLimitedError)
+  && err.status >= 400 && err.status < 500 && err.status !== 408;
+
+// Questions asked while offline, kept in localStorage and asked one at a time
+// once the connection returns. A failing question is retried with backoff
+// (rate limits are waited out as the server asks); one the server rejects, or
+// that keeps failing, is set aside so the questions after it still go out.
+export function useOfflineQueue({ isOnline, answer, onFlushed }: UseOfflineQueueOptions) {
+  const [queue, setQueue] = usePersistentState<QueuedQuestion[]>('offlineQueue', []);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const callbacksRef = useRef({ answer, onFlushed });
+  callbacksRef.current = { answer, onFlushed };
+  const flushingRef = useRef(false);
+  // Bumped when a scheduled retry is due, to run the flush effect again
+  const [retryTick, setRetryTick] = useState(0);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+
+  // Several updates can happen before the next render, so keep the ref current
+  const save = useCallback((next: QueuedQuestion[]) => {
+    queueRef.current = next;
+    setQueue(next);
+  }, [setQueue]);
+
+  const patch = useCallback((id: string, changes: Partial<QueuedQuestion>) => {
+    save(queueRef.current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, [save]);
+
+  const enqueue = useCallback((query: string, language: string) => {
+    save([...queueRef.current, { id: createHistoryId(), query, language, timestamp: Date.now() }]);
+  }, [save]);
+
+  const remove = useCallback((id: string) => {
+    save(queueRef.current.filter(item => item.id !== id));
+  }, [save]);
+
+  // Puts a set-aside question back in line
+  const retry = useCallback((id: string) => {
+    patch(id, { failed: false, attempts: 0, error: undefined });
+  }, [patch]);
+
+  useEffect(() => {
+    if (retryAt === null) return;
+    const timer = setTimeout(() => {
+      setRetryAt(null);
+      setRetryTick(tick => tick + 1);
+    }, Math.max(0, retryAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [retryAt]);
+
+  const pendingCount = queue.filter(item => !item.failed).length;
+
+  useEffect(() => {
+    if (!isOnline || pendingCount === 0 || retryAt !== null || flushingRef.current) return;
+    flushingRef.current = true;
+
+    const flush = async () => {
+      let answered = 0;
+      for (const item of queueRef.current.filter(queued => !queued.failed)) {
+        try {
+          await callbacksRef.current.answer(item);
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to answer';
+          if (isPermanentFailure(err)) {
+            log.warn('Queued question rejected, setting it aside', err);
+            patch(item.id, { failed: true, error });
+            continue;
+          }
+          // Rate limits say how long to wait and don't count as attempts
+          const retryAfter = err instanceof RateLimitedError ? err.retryAfterMs : undefined;
+          const attempts = (item.attempts ?? 0) + (retryAfter === undefined ? 1 : 0);
+          if (attempts >= MAX_ATTEMPTS) {
+            log.warn('Queued question kept failing, setting it aside', err);
+            patch(item.id, { failed: true, attempts, error });
+            continue;
+          }
+          const delay = retryAfter ?? Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+          log.warn('Queued question failed, will retry', { seconds: Math.round(delay / 1000), error: err });
+          patch(item.id, { attempts, error });
+          setRetryAt(Date.now() + delay);
+          break;
+        }
+        answered++;
+        save(queueRef.current.filter(queued => queued.id !== item.id));
+      }
+      if (answered > 0) callbacksRef.current.onFlushed?.(answered);
+    };
+
+    flush().finally(() => {
+      flushingRef.current = false;
+    });
+  }, [isOnline, pendingCount, retryAt, retryTick, patch, save]);
+
+  return { queue, retryAt, enqueue, remove, retry };
+}
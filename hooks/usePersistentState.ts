@@ -0,0 +1,35 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('app');
+
+const STORAGE_PREFIX = 'vachanamrut:';
+
+// useState backed by localStorage. The stored value is read after mount so the
+// first client render matches the server render.
+export function usePersistentState<T>(key: string, initialValue: T) {
+  const storageKey = `${STORAGE_PREFIX}${key}`;
+  const [value, setValue] = useState<T>(initialValue);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(storageKey);
+      if (stored !== null) setValue(JSON.parse(stored) as T);
+    } catch (err) {
+      log.warn('Failed to read setting', { key, error: err });
+    }
+  }, [key, storageKey]);
+
+  const update = useCallback((next: T) => {
+    setValue(next);
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(next));
+    } catch (err) {
+      log.warn('Failed to save setting', { key, error: err });
+    }
+  }, [key, storageKey]);
+
+  return [value, update] as const;
+}
@@ -0,0 +1,184 @@
+// @vitest-environment happy-dom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SpeechRecognitionResultList, SpeechRecognitionWindow } from '@/lib/speech/recognition';
+import { useSpeechRecognition } from './useSpeechRecognition';
+
+type Heard = { transcript: string; isFinal: boolean };
+
+// Stands in for the browser's recognizer: the test says what was heard and
+// when the session ends, as the speech service would
+class FakeRecognition extends EventTarget {
+  static instances: FakeRecognition[] = [];
+
+  continuous = true;
+  interimResults = false;
+  lang = '';
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+  onend: (() => void) | null = null;
+  start = vi.fn();
+  stop = vi.fn();
+  // Like browsers, aborting reports an 'aborted' error and then ends
+  abort = vi.fn(() => {
+    this.fail('aborted');
+    this.end();
+  });
+
+  constructor() {
+    super();
+    FakeRecognition.instances.push(this);
+  }
+
+  hear(...heard: Heard[]) {
+    const results = Object.assign(
+      heard.map(({ transcript, isFinal }) => Object.assign([{ transcript, confidence: 0.9 }], { isFinal })),
+      { length: heard.length },
+    );
+    act(() => this.onresult?.({ resultIndex: 0, results }));
+  }
+
+  fail(error: string) {
+    act(() => this.onerror?.({ error }));
+  }
+
+  end() {
+    act(() => this.onend?.());
+  }
+}
+
+const latest = () => FakeRecognition.instances[FakeRecognition.instances.length - 1];
+
+const setup = () => {
+  const onResult = vi.fn();
+  const onError = vi.fn();
+  const hook = renderHook(() => useSpeechRecognition({ lang: 'gu-IN', onResult, onError }));
+  return { ...hook, onResult, onError };
+};
+
+describe('useSpeechRecognition', () => {
+  beforeEach(() => {
+    FakeRecognition.instances = [];
+    (window as SpeechRecognitionWindow).SpeechRecognition = FakeRecognition as unknown as SpeechRecognitionWindow['SpeechRecognition'];
+  });
+
+  afterEach(() => {
+    delete (window as SpeechRecognitionWindow).SpeechRecognition;
+  });
+
+  it('starts a single-utterance session with interim results in the chosen language', () => {
+    const { result } = setup();
+    expect(result.current.isSupported).toBe(true);
+
+    act(() => {
+      expect(result.current.start()).toBe(true);
+    });
+    expect(latest()).toMatchObject({ continuous: false, interimResults: true, lang: 'gu-IN' });
+    expect(latest().start).toHaveBeenCalledOnce();
+    expect(result.current.isListening).toBe(true);
+  });
+
+  it('shows interim text as it changes and delivers the final transcript when the session ends', () => {
+    const { result, onResult } = setup();
+    act(() => {
+      result.current.start();
+    });
+
+    latest().hear({ transcript: 'What is', isFinal: false });
+    expect(result.current.interimTranscript).toBe('What is');
+    latest().hear({ transcript: 'What is ', isFinal: true }, { transcript: 'satsang', isFinal: false });
+    expect(result.current.interimTranscript).toBe('What is satsang');
+    latest().hear({ transcript: 'What is ', isFinal: true }, { transcript: 'satsang?', isFinal: true });
+    expect(onResult).not.toHaveBeenCalled();
+
+    latest().end();
+    expect(onResult).toHaveBeenCalledWith('What is satsang?', expect.any(Number));
+    expect(result.current.isListening).toBe(false);
+    expect(result.current.interimTranscript).toBe('');
+  });
+
+  it('still delivers what was heard after stop()', () => {
+    const { result, onResult } = setup();
+    act(() => {
+      result.current.start();
+    });
+    latest().hear({ transcript: 'Who is Maharaj?', isFinal: true });
+
+    act(() => result.current.stop());
+    expect(latest().stop).toHaveBeenCalledOnce();
+    expect(result.current.isListening).toBe(false);
+
+    latest().end();
+    expect(onResult).toHaveBeenCalledWith('Who is Maharaj?', expect.any(Number));
+  });
+
+  it('discards what was heard after abort()', () => {
+    const { result, onResult, onError } = setup();
+    act(() => {
+      result.current.start();
+    });
+    latest().hear({ transcript: 'Who is', isFinal: false });
+
+    act(() => result.current.abort());
+    expect(latest().abort).toHaveBeenCalledOnce();
+    expect(result.current.isListening).toBe(false);
+    expect(result.current.interimTranscript).toBe('');
+    expect(onResult).not.toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it.each(['no-speech', 'aborted'])('stays quiet about the expected %s error', (error) => {
+    const { result, onResult, onError } = setup();
+    act(() => {
+      result.current.start();
+    });
+    latest().fail(error);
+    latest().end();
+    expect(onError).not.toHaveBeenCalled();
+    expect(onResult).not.toHaveBeenCalled();
+    expect(result.current.isListening).toBe(false);
+  });
+
+  it('reports real errors', () => {
+    const { result, onError } = setup();
+    act(() => {
+      result.current.start();
+    });
+    latest().fail('not-allowed');
+    expect(onError).toHaveBeenCalledWith('Voice recognition error: not-allowed');
+  });
+
+  it('ignores results and errors from a session that was replaced', () => {
+    const { result, onResult, onError } = setup();
+    act(() => {
+      result.current.start();
+    });
+    const replaced = latest();
+    act(() => {
+      result.current.start();
+    });
+    expect(replaced.abort).toHaveBeenCalledOnce();
+
+    replaced.hear({ transcript: 'old question', isFinal: true });
+    replaced.fail('network');
+    replaced.end();
+    expect(result.current.interimTranscript).toBe('');
+    expect(result.current.isListening).toBe(true);
+
+    latest().hear({ transcript: 'new question', isFinal: true });
+    latest().end();
+    expect(onResult).toHaveBeenCalledOnce();
+    expect(onResult).toHaveBeenCalledWith('new question', expect.any(Number));
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('reports when the browser has no recognizer', () => {
+    delete (window as SpeechRecognitionWindow).SpeechRecognition;
+    const { result, onError } = setup();
+    expect(result.current.isSupported).toBe(false);
+    act(() => {
+      expect(result.current.start()).toBe(false);
+    });
+    expect(onError).toHaveBeenCalledWith('Speech recognition not supported in your browser');
+  });
+});
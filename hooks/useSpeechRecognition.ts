@@ -0,0 +1,148 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createLogger } from '@/lib/logger';
+import { getSpeechRecognition, readTranscript } from '@/lib/speech/recognition';
+import type { SpeechRecognition, SpeechRecognitionErrorEvent, SpeechRecognitionEvent } from '@/lib/speech/recognition';
+
+const log = createLogger('recognition');
+
+interface SpeechRecognitionOptions {
+  // BCP 47 tag, e.g. 'gu-IN'; applied to the next session
+  lang: string;
+  // Called once per session with the complete utterance and how long the
+  // session took from starting to listen
+  onResult: (transcript: string, durationMs: number) => void;
+  onError?: (message: string) => void;
+}
+
+// Owns a single-utterance SpeechRecognition session with interim results. A
+// fresh recognizer is created for every session because the API sometimes
+// gets stuck after stop() and refuses to start again.
+export function useSpeechRecognition({ lang, onResult, onError }: SpeechRecognitionOptions) {
+  // null until checked on mount, so the first render matches the server's
+  const [isSupported, setIsSupported] = useState<boolean | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [interimTranscript, setInterimTranscript] = useState('');
+
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  // Latest options, read by the recognizer's handlers
+  const optionsRef = useRef({ lang, onResult, onError });
+  optionsRef.current = { lang, onResult, onError };
+
+  useEffect(() => {
+    setIsSupported(!!getSpeechRecognition());
+    return () => {
+      const recognition = recognitionRef.current;
+      recognitionRef.current = null;
+      if (recognition) {
+        recognition.onresult = null;
+        recognition.onerror = null;
+        recognition.onend = null;
+        recognition.abort();
+      }
+    };
+  }, []);
+
+  const createRecognition = useCallback(() => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return null;
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = false;
+    recognition.interimResults = true;
+    recognition.lang = optionsRef.current.lang;
+
+    let finalTranscript = '';
+    const startedAt = Date.now();
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      if (recognitionRef.current !== recognition) return;
+      const { final, interim } = readTranscript(event.results);
+      finalTranscript = final;
+      setInterimTranscript([final, interim].filter(Boolean).join(' '));
+    };
+
+    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      if (recognitionRef.current !== recognition) return;
+      // Handle normal/expected errors silently
+      if (event.error === 'no-speech') {
+        // User didn't speak or spoke too quietly - just reset, no error needed
+        log.debug('No speech detected');
+        return;
+      }
+      if (event.error === 'aborted') {
+        // User manually stopped - this is normal
+        log.debug('Recognition aborted');
+        return;
+      }
+      // Only log and show real errors
+      log.error('Recognition failed', { code: event.error });
+      optionsRef.current.onError?.(`Voice recognition error: ${event.error}`);
+    };
+
+    // The session is over: deliver whatever was finally recognized
+    recognition.onend = () => {
+      if (recognitionRef.current !== recognition) return;
+      recognitionRef.current = null;
+      setIsListening(false);
+      setInterimTranscript('');
+      if (finalTranscript) {
+        log.info('Recognized', { transcript: finalTranscript, ms: Date.now() - startedAt });
+        optionsRef.current.onResult(finalTranscript, Date.now() - startedAt);
+      }
+    };
+
+    return recognition;
+  }, []);
+
+  const start = useCallback(() => {
+    // Drop any previous session without delivering its result
+    const previous = recognitionRef.current;
+    recognitionRef.current = null;
+    previous?.abort();
+
+    const recognition = createRecognition();
+    if (!recognition) {
+      optionsRef.current.onError?.('Speech recognition not supported in your browser');
+      return false;
+    }
+
+    try {
+      recognitionRef.current = recognition;
+      setInterimTranscript('');
+      setIsListening(true);
+      recognition.start();
+      log.debug('Listening', { lang: recognition.lang });
+      return true;
+    } catch (e) {
+      log.error('Recognition failed to start', e);
+      recognitionRef.current = null;
+      setIsListening(false);
+      optionsRef.current.onError?.('Failed to start speech recognition. Please try again.');
+      return false;
+    }
+  }, [createRecognition]);
+
+  // Ends the session; what was heard so far is still delivered via onResult
+  const stop = useCallback(() => {
+    log.debug('Stopping recognition');
+    try {
+      recognitionRef.current?.stop();
+    } catch (e) {
+      log.warn('Recognition failed to stop', e);
+    }
+    setIsListening(false);
+  }, []);
+
+  // Ends the session and discards anything heard
+  const abort = useCallback(() => {
+    const recognition = recognitionRef.current;
+    recognitionRef.current = null;
+    recognition?.abort();
+    setIsListening(false);
+    setInterimTranscript('');
+  }, []);
+
+  return { isSupported, isListening, interimTranscript, start, stop, abort };
+}
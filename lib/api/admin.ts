@@ -0,0 +1,96 @@
+import { BackendError, BackendReportedError, HttpError, MalformedResponseError, NetworkError } from './errors';
+import {
+  parseCachedAnswerDetail,
+  parseCachedAnswerList,
+  parseCachedAnswerSummary,
+  parseMetricsSummary,
+  readErrorMessage,
+} from './schema';
+import type {
+  CachedAnswerDetail,
+  CachedAnswerList,
+  CachedAnswerSummary,
+  MetricsSummary,
+  PinAnswerRequest,
+  UpdateCachedAnswerRequest,
+} from './types';
+
+// Client for the token-protected /api/admin routes. They only exist on this
+// app, so requests always go to the same origin.
+
+export type MetricsWindow = '1h' | '24h' | '7d';
+
+export interface AdminClientOptions {
+  token: string;
+  fetchImpl?: typeof fetch;
+}
+
+export const createAdminClient = ({ token, fetchImpl }: AdminClientOptions) => {
+  const doFetch: typeof fetch = (...args) => (fetchImpl ?? fetch)(...args);
+
+  const request = async <T>(
+    endpoint: string,
+    parse: (endpoint: string, body: unknown) => T,
+    { method = 'GET', payload, signal }: { method?: string; payload?: unknown; signal?: AbortSignal } = {},
+  ): Promise<T> => {
+    let response: Response;
+    try {
+      response = await doFetch(endpoint, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(payload === undefined ? {} : { 'Content-Type': 'application/json' }),
+        },
+        body: payload === undefined ? undefined : JSON.stringify(payload),
+        cache: 'no-store',
+        signal,
+      });
+    } catch (err) {
+      if (err instanceof BackendError || (err instanceof DOMException && err.name === 'AbortError')) throw err;
+      throw new NetworkError(endpoint, err);
+    }
+    const text = await response.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      if (response.ok) throw new MalformedResponseError(endpoint, 'body is not valid JSON');
+    }
+    if (!response.ok) {
+      const message = readErrorMessage(body);
+      if (message) throw new BackendReportedError(endpoint, response.status, message);
+      throw new HttpError(endpoint, response.status, response.statusText);
+    }
+    return parse(endpoint, body);
+  };
+
+  const cacheEntry = (id: string) => `/api/admin/cache/${encodeURIComponent(id)}`;
+
+  return {
+    getMetrics: (window: MetricsWindow, signal?: AbortSignal): Promise<MetricsSummary> =>
+      request(`/api/admin/metrics?window=${window}`, parseMetricsSummary, { signal }),
+
+    listCache: (search = '', signal?: AbortSignal): Promise<CachedAnswerList> =>
+      request(`/api/admin/cache${search ? `?q=${encodeURIComponent(search)}` : ''}`, parseCachedAnswerList, { signal }),
+
+    getCachedAnswer: (id: string, signal?: AbortSignal): Promise<CachedAnswerDetail> =>
+      request(cacheEntry(id), parseCachedAnswerDetail, { signal }),
+
+    pinAnswer: (payload: PinAnswerRequest): Promise<CachedAnswerSummary> =>
+      request('/api/admin/cache', (endpoint, body) => parseCachedAnswerSummary(endpoint, body, 'response body'), {
+        method: 'POST',
+        payload,
+      }),
+
+    updateCachedAnswer: (id: string, payload: UpdateCachedAnswerRequest): Promise<CachedAnswerSummary> =>
+      request(cacheEntry(id), (endpoint, body) => parseCachedAnswerSummary(endpoint, body, 'response body'), {
+        method: 'PATCH',
+        payload,
+      }),
+
+    deleteCachedAnswer: (id: string): Promise<void> =>
+      request(cacheEntry(id), () => undefined, { method: 'DELETE' }),
+  };
+};
+
+export type AdminClient = ReturnType<typeof createAdminClient>;
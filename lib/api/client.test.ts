@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createBackendClient } from './client';
+import { HttpError, MalformedResponseError, NetworkError, RateLimitedError, TimeoutError, isAbortError } from './errors';
+
+const answerBody = { answer: 'Satsang is the company of the good.', fromCache: false, ttsParts: [], citations: [] };
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+
+// A body that arrives in the given chunks, split wherever the test likes
+const streamed = (chunks: string[], contentType: string) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': contentType } });
+};
+
+// Answers each call with the next response in line, like a scripted server
+const mockServer = (...responses: Array<() => Response | Promise<Response>>) => {
+  const fetchImpl = vi.fn<typeof fetch>(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    return next();
+  });
+  return fetchImpl;
+};
+
+// Never answers; rejects the way fetch does once its signal is aborted
+const hangingFetch = vi.fn<typeof fetch>((_input, init) =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  }));
+
+const client = (fetchImpl: typeof fetch, options: { timeoutMs?: number; retries?: number } = {}) =>
+  createBackendClient({ baseUrl: 'http://backend.test', retryDelayMs: 1, fetchImpl, ...options });
+
+describe('createBackendClient', () => {
+  it('retries 5xx responses with backoff and returns the first success', async () => {
+    const fetchImpl = mockServer(
+      () => json({ error: 'Upstream unavailable' }, { status: 503 }),
+      () => new Response('Bad gateway', { status: 502 }),
+      () => json(answerBody),
+    );
+    await expect(client(fetchImpl).askGemini({ query: 'What is satsang?' })).resolves.toEqual(answerBody);
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(fetchImpl.mock.calls[0]?.[0]).toBe('http://backend.test/api/gemini');
+  });
+
+  it('waits out a short Retry-After on 429 and tries again', async () => {
+    const fetchImpl = mockServer(
+      () => json({ error: 'Slow down' }, { status: 429, headers: { 'Retry-After': '0' } }),
+      () => json(answerBody),
+    );
+    await expect(client(fetchImpl).askGemini({ query: 'What is satsang?' })).resolves.toEqual(answerBody);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry when Retry-After is longer than any backoff", async () => {
+    const fetchImpl = mockServer(() => json({ error: 'Daily limit reached' }, { status: 429, headers: { 'Retry-After': '3600' } }));
+    const error = await client(fetchImpl).askGemini({ query: 'What is satsang?' }).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ message: 'Daily limit reached', status: 429, retryAfterMs: 3_600_000 });
+    expect(fetchImpl).toHaveBeenCalledOnce();
+  });
+
+  it('gives up after the configured retries', async () => {
+    const fetchImpl = mockServer(
+      () => new Response('', { status: 500 }),
+      () => new Response('', { status: 500 }),
+    );
+    await expect(client(fetchImpl, { retries: 1 }).askGemini({ query: 'q' })).rejects.toBeInstanceOf(HttpError);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('turns an HTML error page into an HttpError with the status', async () => {
+    const fetchImpl = mockServer(() => new Response('<html><body>Not found</body></html>', { status: 404, statusText: 'Not Found' }));
+    const error = await client(fetchImpl).askGemini({ query: 'q' }).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 404, endpoint: '/api/gemini' });
+  });
+
+  it('rejects a 200 body that is not JSON or not the expected shape', async () => {
+    const notJson = mockServer(() => new Response('<html>ok</html>', { status: 200 }));
+    await expect(client(notJson).askGemini({ query: 'q' })).rejects.toBeInstanceOf(MalformedResponseError);
+
+    const wrongShape = mockServer(() => json({ answer: 42 }));
+    await expect(client(wrongShape).askGemini({ query: 'q' })).rejects.toThrow('expected "answer" to be a string');
+  });
+
+  it('times out each attempt with a TimeoutError', async () => {
+    const error = await client(hangingFetch, { timeoutMs: 20, retries: 0 }).askGemini({ query: 'q' }, { timeoutMs: 20 })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ timeoutMs: 20 });
+  });
+
+  it("passes the caller's abort through untouched", async () => {
+    const controller = new AbortController();
+    const pending = client(hangingFetch).askGemini({ query: 'q' }, { signal: controller.signal });
+    controller.abort();
+    const error = await pending.catch((err: unknown) => err);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('reports a request that never got a response as a NetworkError', async () => {
+    const fetchImpl = mockServer(() => Promise.reject(new TypeError('Failed to fetch')));
+    await expect(client(fetchImpl).askGemini({ query: 'q' })).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe('streamGemini', () => {
+  it('reports NDJSON deltas, even when lines are split across chunks', async () => {
+    const fetchImpl = mockServer(() => streamed([
+      '{"type":"delta","text":"Satsang is "}\n{"type":"del',
+      'ta","text":"the company of the good."}\n',
+      `${JSON.stringify({ type: 'done', ...answerBody })}\n`,
+    ], 'application/x-ndjson'));
+    const onDelta = vi.fn();
+    await expect(client(fetchImpl).streamGemini({ query: 'q' }, { onDelta })).resolves.toEqual(answerBody);
+    expect(onDelta.mock.calls).toEqual([['Satsang is '], ['the company of the good.']]);
+  });
+
+  it('reports SSE deltas and skips keep-alive comments', async () => {
+    const fetchImpl = mockServer(() => streamed([
+      ': keep-alive\n\n',
+      'data: {"type":"delta","text":"Satsang"}\n\n',
+      `data: ${JSON.stringify({ type: 'done', ...answerBody })}\n\n`,
+      'data: [DONE]\n\n',
+    ], 'text/event-stream'));
+    const onDelta = vi.fn();
+    await expect(client(fetchImpl).streamGemini({ query: 'q' }, { onDelta })).resolves.toEqual(answerBody);
+    expect(onDelta.mock.calls).toEqual([['Satsang']]);
+  });
+
+  it('rejects a stream that ends before the answer is complete', async () => {
+    const fetchImpl = mockServer(() => streamed(['{"type":"delta","text":"Satsang"}\n'], 'application/x-ndjson'));
+    await expect(client(fetchImpl).streamGemini({ query: 'q' })).rejects.toBeInstanceOf(MalformedResponseError);
+  });
+
+  it('falls back to the JSON body when the backend does not stream', async () => {
+    const fetchImpl = mockServer(() => json(answerBody));
+    await expect(client(fetchImpl).streamGemini({ query: 'q' }, { onDelta: vi.fn() })).resolves.toEqual(answerBody);
+  });
+});
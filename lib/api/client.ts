@@ -0,0 +1,254 @@
+import { createLogger } from '@/lib/logger';
+import {
+  BackendError,
+  BackendReportedError,
+  HttpError,
+  MalformedResponseError,
+  NetworkError,
+  RateLimitedError,
+  TimeoutError,
+  isAbortError,
+} from './errors';
+import { SESSION_ID_HEADER } from './limits';
+import { parseFeedbackResponse, parseGeminiResponse, parseTtsResponse, readErrorMessage } from './schema';
+import { detectStreamFormat, readGeminiStream } from './stream';
+import type {
+  FeedbackRequest,
+  FeedbackResponse,
+  GeminiRequest,
+  GeminiResponse,
+  MetricsReport,
+  SaveAudioRequest,
+  TtsRequest,
+  TtsResponse,
+} from './types';
+
+const log = createLogger('api');
+
+export interface BackendClientOptions {
+  baseUrl: string;
+  // Per-attempt timeout used when a call does not pass its own
+  timeoutMs?: number;
+  // Extra attempts after the first for 429 and 5xx responses
+  retries?: number;
+  // First backoff delay; doubles on each retry
+  retryDelayMs?: number;
+  // Sent as X-Session-Id so the server can rate limit this session
+  getSessionId?: () => string | undefined;
+  fetchImpl?: typeof fetch;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface StreamOptions extends RequestOptions {
+  // Called with each new fragment of the answer as it arrives
+  onDelta?: (text: string) => void;
+}
+
+interface PostOptions<T> extends RequestOptions {
+  accept?: string;
+  // Consumes a successful streaming response; returning undefined means the
+  // response is plain JSON and should go through `parse` instead
+  readStream?: (endpoint: string, response: Response) => Promise<T> | undefined;
+}
+
+type AttemptResult<T> =
+  | { response: Response; streamed: true; value: T }
+  | { response: Response; streamed: false; body: unknown };
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+// TTS for a long answer routinely takes 15-25 seconds
+const TTS_TIMEOUT_MS = 90_000;
+const GEMINI_TIMEOUT_MS = 60_000;
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Resolves after `ms`, rejecting early with an AbortError if `signal` fires
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Honour Retry-After (seconds or HTTP date) when the server sends one
+const retryAfterMs = (response: Response): number | undefined => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const backoffMs = (attempt: number, baseMs: number) => {
+  const exponential = baseMs * 2 ** attempt;
+  const jitter = Math.random() * baseMs;
+  return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+};
+
+const readJson = async (endpoint: string, response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Error pages from proxies (ngrok, Vercel) are HTML; only complain about
+    // the body when the status claimed success
+    if (response.ok) {
+      throw new MalformedResponseError(endpoint, 'body is not valid JSON');
+    }
+    return undefined;
+  }
+};
+
+export const createBackendClient = ({
+  baseUrl,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  retries = DEFAULT_RETRIES,
+  retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  getSessionId,
+  fetchImpl,
+}: BackendClientOptions) => {
+  // Resolve fetch lazily so the client can be created during SSR
+  const doFetch: typeof fetch = (...args) => (fetchImpl ?? fetch)(...args);
+
+  // Single attempt with its own timeout, linked to the caller's signal. The
+  // timeout covers reading the body too, including streamed bodies.
+  const attempt = async <T>(endpoint: string, init: RequestInit, options: PostOptions<T>): Promise<AttemptResult<T>> => {
+    const controller = new AbortController();
+    const limit = options.timeoutMs ?? timeoutMs;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, limit);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await doFetch(`${baseUrl}${endpoint}`, { ...init, signal: controller.signal });
+      const streamed = response.ok ? options.readStream?.(endpoint, response) : undefined;
+      if (streamed) {
+        return { response, streamed: true, value: await streamed };
+      }
+      const body = await readJson(endpoint, response);
+      return { response, streamed: false, body };
+    } catch (err) {
+      if (timedOut) throw new TimeoutError(endpoint, limit);
+      if (isAbortError(err) || options.signal?.aborted) throw err;
+      if (err instanceof BackendError) throw err;
+      throw new NetworkError(endpoint, err);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  const postJson = async <T>(
+    endpoint: string,
+    payload: unknown,
+    parse: (endpoint: string, body: unknown) => T,
+    options: PostOptions<T> = {},
+  ): Promise<T> => {
+    if (options.signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+
+    const sessionId = getSessionId?.();
+    const init: RequestInit = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.accept ? { Accept: options.accept } : {}),
+        ...(sessionId ? { [SESSION_ID_HEADER]: sessionId } : {}),
+      },
+      body: JSON.stringify(payload),
+    };
+    const maxRetries = options.retries ?? retries;
+
+    for (let i = 0; ; i++) {
+      const result = await attempt(endpoint, init, options);
+      if (result.streamed) return result.value;
+      const { response, body } = result;
+
+      if (response.ok) {
+        const message = readErrorMessage(body);
+        if (message) throw new BackendReportedError(endpoint, response.status, message);
+        return parse(endpoint, body);
+      }
+
+      const retryAfter = retryAfterMs(response);
+      // A wait longer than any backoff means a real limit, not a blip; let
+      // the caller decide whether to wait it out
+      const worthRetrying = retryAfter === undefined || retryAfter <= MAX_RETRY_DELAY_MS;
+      if (isRetryableStatus(response.status) && worthRetrying && i < maxRetries) {
+        const delay = retryAfter ?? backoffMs(i, retryDelayMs);
+        log.warn('Retrying request', { endpoint, status: response.status, delayMs: Math.round(delay) });
+        await sleep(Math.min(delay, MAX_RETRY_DELAY_MS), options.signal);
+        continue;
+      }
+
+      const message = readErrorMessage(body);
+      if (response.status === 429) {
+        throw new RateLimitedError(endpoint, message ?? 'Too many requests. Please wait a moment and try again.', retryAfter);
+      }
+      if (message) throw new BackendReportedError(endpoint, response.status, message);
+      throw new HttpError(endpoint, response.status, response.statusText);
+    }
+  };
+
+  return {
+    baseUrl,
+
+    askGemini: (request: GeminiRequest, options?: RequestOptions): Promise<GeminiResponse> =>
+      postJson('/api/gemini', request, parseGeminiResponse, { timeoutMs: GEMINI_TIMEOUT_MS, ...options }),
+
+    // Same endpoint, but asks for a streamed body (NDJSON or SSE) and reports
+    // answer fragments through onDelta. Backends that only speak JSON still work.
+    streamGemini: (request: GeminiRequest, { onDelta, ...options }: StreamOptions = {}): Promise<GeminiResponse> =>
+      postJson('/api/gemini', { ...request, stream: true }, parseGeminiResponse, {
+        timeoutMs: GEMINI_TIMEOUT_MS,
+        ...options,
+        accept: 'application/x-ndjson, text/event-stream;q=0.9, application/json;q=0.8',
+        readStream: (endpoint, response) => {
+          const format = detectStreamFormat(response);
+          return format ? readGeminiStream(endpoint, response, format, onDelta) : undefined;
+        },
+      }),
+
+    synthesizeSpeech: (request: TtsRequest, options?: RequestOptions): Promise<TtsResponse> =>
+      postJson('/api/tts', request, parseTtsResponse, { timeoutMs: TTS_TIMEOUT_MS, ...options }),
+
+    // Fire-and-forget from the UI's point of view, so never retried
+    saveAudio: (request: SaveAudioRequest, options?: RequestOptions): Promise<void> =>
+      postJson('/api/history/save-audio', request, () => undefined, { retries: 0, ...options }),
+
+    sendFeedback: (request: FeedbackRequest, options?: RequestOptions): Promise<FeedbackResponse> =>
+      postJson('/api/feedback', request, parseFeedbackResponse, options),
+
+    // Telemetry is best effort, so never retried
+    sendMetrics: (report: MetricsReport, options?: RequestOptions): Promise<void> =>
+      postJson('/api/metrics', report, () => undefined, { retries: 0, ...options }),
+  };
+};
+
+export type BackendClient = ReturnType<typeof createBackendClient>;
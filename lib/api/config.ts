@@ -0,0 +1,23 @@
+// Normalize and validate backend URL. Without NEXT_PUBLIC_BACKEND_URL the
+// client calls this app's own /api routes (same origin).
+export const getApiBase = () => {
+  const url = process.env.NEXT_PUBLIC_BACKEND_URL || '';
+  if (!url) return '';
+
+  // Remove any trailing slashes and invalid concatenations
+  let cleanUrl = url.trim();
+
+  // Check for malformed URLs (e.g., "ngrok.comhttp://localhost")
+  if (cleanUrl.includes('http://') && cleanUrl.includes('https://')) {
+    // If both protocols exist, take the first https:// one
+    const httpsMatch = cleanUrl.match(/https?:\/\/[^\s]+/);
+    if (httpsMatch) {
+      cleanUrl = httpsMatch[0];
+    }
+  }
+
+  // Remove trailing slash
+  cleanUrl = cleanUrl.replace(/\/+$/, '');
+
+  return cleanUrl;
+};
@@ -0,0 +1,77 @@
+// Error types thrown by the backend client. Every error carries the endpoint
+// it came from so the UI can show something more useful than "request failed".
+
+export class BackendError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string, message: string) {
+    super(message);
+    this.name = 'BackendError';
+    this.endpoint = endpoint;
+  }
+}
+
+// The request never produced a response (offline, DNS, CORS, connection reset)
+export class NetworkError extends BackendError {
+  constructor(endpoint: string, cause?: unknown) {
+    super(endpoint, `Could not reach the server (${endpoint}). Please check your connection.`);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+// The request took longer than the configured timeout
+export class TimeoutError extends BackendError {
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(endpoint, `The server took too long to respond (${endpoint}, ${Math.round(timeoutMs / 1000)}s).`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The server answered with a non-2xx status and no usable error message
+export class HttpError extends BackendError {
+  readonly status: number;
+
+  constructor(endpoint: string, status: number, statusText?: string) {
+    super(endpoint, `Server returned ${status}${statusText ? ` ${statusText}` : ''} for ${endpoint}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// The server answered but the body did not match the expected contract
+export class MalformedResponseError extends BackendError {
+  constructor(endpoint: string, detail: string) {
+    super(endpoint, `Unexpected response from ${endpoint}: ${detail}`);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// The server explicitly reported a failure through its { error } field
+export class BackendReportedError extends BackendError {
+  readonly status: number;
+
+  constructor(endpoint: string, status: number, message: string) {
+    super(endpoint, message);
+    this.name = 'BackendReportedError';
+    this.status = status;
+  }
+}
+
+// The server refused the request because of a rate limit or daily quota.
+// `retryAfterMs` comes from the Retry-After header when the server sent one.
+export class RateLimitedError extends BackendReportedError {
+  readonly retryAfterMs?: number;
+
+  constructor(endpoint: string, message: string, retryAfterMs?: number) {
+    super(endpoint, 429, message);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
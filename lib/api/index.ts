@@ -0,0 +1,7 @@
+export { createBackendClient } from './client';
+export type { BackendClient, BackendClientOptions, RequestOptions, StreamOptions } from './client';
+export { getApiBase } from './config';
+export * from './errors';
+export * from './limits';
+export { getClientSessionId } from './session';
+export type * from './types';
@@ -0,0 +1,20 @@
+// Limits the API routes enforce, shared so the UI can respect them up front
+
+// Longest question /api/gemini accepts
+export const MAX_QUERY_CHARS = 1000;
+
+// Longest text one /api/tts call accepts; answers are chunked well below this
+export const MAX_TTS_TEXT_CHARS = 2000;
+
+// Longest speaking style instruction /api/tts accepts
+export const MAX_TTS_STYLE_CHARS = 200;
+
+// Most chunks one answer's audio may be saved in; a long answer makes about 20
+export const MAX_AUDIO_PARTS = 50;
+
+// Largest base64 audio chunk /api/history/save-audio accepts, about a minute
+// of 24 kHz speech
+export const MAX_AUDIO_PART_CHARS = 4_000_000;
+
+// Identifies the browser session for per-session rate limits
+export const SESSION_ID_HEADER = 'X-Session-Id';
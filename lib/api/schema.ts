@@ -0,0 +1,168 @@
+import { MalformedResponseError } from './errors';
+import type {
+  CachedAnswerDetail,
+  CachedAnswerList,
+  CachedAnswerSummary,
+  Citation,
+  FeedbackResponse,
+  GeminiResponse,
+  GeminiStreamEvent,
+  MetricsSummary,
+  TtsPart,
+  TtsResponse,
+} from './types';
+
+// Minimal runtime validation for backend payloads. Each parser either returns a
+// value matching the contract or throws MalformedResponseError naming the field.
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireObject = (endpoint: string, value: unknown, path: string): JsonObject => {
+  if (!isObject(value)) {
+    throw new MalformedResponseError(endpoint, `expected ${path} to be an object`);
+  }
+  return value;
+};
+
+const requireString = (endpoint: string, obj: JsonObject, key: string, path = key): string => {
+  const value = obj[key];
+  if (typeof value !== 'string') {
+    throw new MalformedResponseError(endpoint, `expected "${path}" to be a string`);
+  }
+  return value;
+};
+
+const optionalString = (endpoint: string, obj: JsonObject, key: string, path = key): string | undefined => {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new MalformedResponseError(endpoint, `expected "${path}" to be a string`);
+  }
+  return value;
+};
+
+const parseTtsPart = (endpoint: string, value: unknown, path: string): TtsPart => {
+  const obj = requireObject(endpoint, value, path);
+  return {
+    audio: requireString(endpoint, obj, 'audio', `${path}.audio`),
+    mimeType: requireString(endpoint, obj, 'mimeType', `${path}.mimeType`),
+    originalMimeType: optionalString(endpoint, obj, 'originalMimeType', `${path}.originalMimeType`),
+  };
+};
+
+const parseCitation = (endpoint: string, value: unknown, path: string): Citation => {
+  const obj = requireObject(endpoint, value, path);
+  return {
+    id: requireString(endpoint, obj, 'id', `${path}.id`),
+    title: optionalString(endpoint, obj, 'title', `${path}.title`),
+    location: optionalString(endpoint, obj, 'location', `${path}.location`),
+    passage: optionalString(endpoint, obj, 'passage', `${path}.passage`),
+  };
+};
+
+// Returns the backend's { error } message if the body has one
+export const readErrorMessage = (body: unknown): string | undefined => {
+  if (!isObject(body)) return undefined;
+  const { error } = body;
+  if (typeof error === 'string' && error.trim()) return error;
+  // Some upstream errors are forwarded as { error: { message } }
+  if (isObject(error) && typeof error.message === 'string') return error.message;
+  return undefined;
+};
+
+export const parseGeminiResponse = (endpoint: string, body: unknown): GeminiResponse => {
+  const obj = requireObject(endpoint, body, 'response body');
+  const answer = requireString(endpoint, obj, 'answer');
+
+  const fromCache = obj.fromCache;
+  if (fromCache !== undefined && typeof fromCache !== 'boolean') {
+    throw new MalformedResponseError(endpoint, 'expected "fromCache" to be a boolean');
+  }
+
+  const rawParts = obj.ttsParts;
+  if (rawParts !== undefined && rawParts !== null && !Array.isArray(rawParts)) {
+    throw new MalformedResponseError(endpoint, 'expected "ttsParts" to be an array');
+  }
+  const ttsParts = Array.isArray(rawParts)
+    ? rawParts.map((part: unknown, i: number) => parseTtsPart(endpoint, part, `ttsParts[${i}]`))
+    : [];
+
+  const rawCitations = obj.citations;
+  if (rawCitations !== undefined && rawCitations !== null && !Array.isArray(rawCitations)) {
+    throw new MalformedResponseError(endpoint, 'expected "citations" to be an array');
+  }
+  const citations = Array.isArray(rawCitations)
+    ? rawCitations.map((citation: unknown, i: number) => parseCitation(endpoint, citation, `citations[${i}]`))
+    : [];
+
+  return { answer, fromCache: fromCache ?? false, ttsParts, citations };
+};
+
+export const parseTtsResponse = (endpoint: string, body: unknown): TtsResponse =>
+  parseTtsPart(endpoint, body, 'response body');
+
+export const parseFeedbackResponse = (endpoint: string, body: unknown): FeedbackResponse => {
+  // Older backends answer { success: true } without the flag
+  const obj = body === undefined ? {} : requireObject(endpoint, body, 'response body');
+  return { invalidated: obj.invalidated === true };
+};
+
+// Admin-only, so only the shape the dashboard iterates over is checked
+export const parseMetricsSummary = (endpoint: string, body: unknown): MetricsSummary => {
+  const obj = requireObject(endpoint, body, 'response body');
+  for (const key of ['stages', 'errors', 'timeline']) {
+    if (!Array.isArray(obj[key])) throw new MalformedResponseError(endpoint, `expected "${key}" to be an array`);
+  }
+  requireObject(endpoint, obj.tokens, 'tokens');
+  return obj as unknown as MetricsSummary;
+};
+
+export const parseCachedAnswerSummary = (endpoint: string, value: unknown, path: string): CachedAnswerSummary => {
+  const obj = requireObject(endpoint, value, path);
+  const citations = Array.isArray(obj.citations) ? obj.citations : [];
+  return {
+    id: requireString(endpoint, obj, 'id', `${path}.id`),
+    question: requireString(endpoint, obj, 'question', `${path}.question`),
+    answer: requireString(endpoint, obj, 'answer', `${path}.answer`),
+    language: optionalString(endpoint, obj, 'language', `${path}.language`),
+    citations: citations.map((citation, i) => parseCitation(endpoint, citation, `${path}.citations[${i}]`)),
+    audioParts: typeof obj.audioParts === 'number' ? obj.audioParts : 0,
+    audioComplete: obj.audioComplete === true,
+    pinned: obj.pinned === true,
+    timestamp: typeof obj.timestamp === 'number' ? obj.timestamp : 0,
+    editedAt: typeof obj.editedAt === 'number' ? obj.editedAt : undefined,
+  };
+};
+
+export const parseCachedAnswerList = (endpoint: string, body: unknown): CachedAnswerList => {
+  const obj = requireObject(endpoint, body, 'response body');
+  if (!Array.isArray(obj.entries)) throw new MalformedResponseError(endpoint, 'expected "entries" to be an array');
+  const entries = obj.entries.map((entry, i) => parseCachedAnswerSummary(endpoint, entry, `entries[${i}]`));
+  return { entries, total: typeof obj.total === 'number' ? obj.total : entries.length };
+};
+
+export const parseCachedAnswerDetail = (endpoint: string, body: unknown): CachedAnswerDetail => {
+  const obj = requireObject(endpoint, body, 'response body');
+  const parts = Array.isArray(obj.ttsParts) ? obj.ttsParts : [];
+  return {
+    ...parseCachedAnswerSummary(endpoint, obj, 'response body'),
+    ttsParts: parts.map((part, i) => parseTtsPart(endpoint, part, `ttsParts[${i}]`)),
+  };
+};
+
+export const parseGeminiStreamEvent = (endpoint: string, body: unknown): GeminiStreamEvent => {
+  const obj = requireObject(endpoint, body, 'stream event');
+  switch (obj.type) {
+    case 'delta':
+      return { type: 'delta', text: requireString(endpoint, obj, 'text') };
+    case 'done':
+      return { type: 'done', ...parseGeminiResponse(endpoint, obj) };
+    case 'error':
+      return { type: 'error', error: readErrorMessage(obj) ?? 'Unknown streaming error' };
+    default:
+      throw new MalformedResponseError(endpoint, `unknown stream event type "${String(obj.type)}"`);
+  }
+};
@@ -0,0 +1,19 @@
+const STORAGE_KEY = 'vachanamrut:sessionId';
+
+// Random id for this browser tab's session, sent with API calls so the server
+// can rate limit sessions behind a shared IP separately. Undefined during SSR
+// or when storage is unavailable.
+export const getClientSessionId = (): string | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    let id = window.sessionStorage.getItem(STORAGE_KEY);
+    if (!id) {
+      // randomUUID needs a secure context; plain http on a LAN lacks one
+      id = 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      window.sessionStorage.setItem(STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    return undefined;
+  }
+};
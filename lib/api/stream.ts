@@ -0,0 +1,84 @@
+import { BackendReportedError, MalformedResponseError } from './errors';
+import { parseGeminiStreamEvent } from './schema';
+import type { GeminiResponse, GeminiStreamEvent } from './types';
+
+export type StreamFormat = 'ndjson' | 'sse';
+
+// Picks the stream framing from Content-Type; undefined means a plain JSON body
+export const detectStreamFormat = (response: Response): StreamFormat | undefined => {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (contentType.includes('application/x-ndjson') || contentType.includes('application/jsonl')) return 'ndjson';
+  if (contentType.includes('text/event-stream')) return 'sse';
+  return undefined;
+};
+
+// Yields the raw JSON payloads of a stream: one per NDJSON line, or one per SSE
+// event (multiple `data:` lines of an event are joined with newlines)
+export async function* readStreamPayloads(response: Response, format: StreamFormat): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const separator = format === 'ndjson' ? /\r?\n/ : /\r?\n\r?\n/;
+  let buffer = '';
+
+  const toPayload = (block: string) => {
+    if (format === 'ndjson') return block.trim();
+    return block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n')
+      .trim();
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(separator);
+      buffer = done ? '' : blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const payload = toPayload(block);
+        // SSE keep-alive comments and blank lines carry no payload
+        if (payload && payload !== '[DONE]') yield payload;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Reads a streamed /api/gemini body to completion, reporting each answer
+// fragment through onDelta and resolving with the final `done` event
+export const readGeminiStream = async (
+  endpoint: string,
+  response: Response,
+  format: StreamFormat,
+  onDelta?: (text: string) => void,
+): Promise<GeminiResponse> => {
+  for await (const payload of readStreamPayloads(response, format)) {
+    let event: GeminiStreamEvent;
+    try {
+      event = parseGeminiStreamEvent(endpoint, JSON.parse(payload));
+    } catch (err) {
+      if (err instanceof MalformedResponseError) throw err;
+      throw new MalformedResponseError(endpoint, 'stream contained invalid JSON');
+    }
+
+    if (event.type === 'delta') {
+      onDelta?.(event.text);
+    } else if (event.type === 'error') {
+      throw new BackendReportedError(endpoint, response.status, event.error);
+    } else {
+      const { answer, fromCache, ttsParts, citations } = event;
+      return { answer, fromCache, ttsParts, citations };
+    }
+  }
+
+  throw new MalformedResponseError(endpoint, 'stream ended before the answer was complete');
+};
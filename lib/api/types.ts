@@ -0,0 +1,233 @@
+// Request/response contracts shared by the frontend and the backend API
+
+// One synthesized audio segment, base64 encoded
+export interface TtsPart {
+  audio: string;
+  mimeType: string;
+  originalMimeType?: string;
+}
+
+// One earlier question and its answer in the same conversation
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+// POST /api/gemini
+export interface GeminiRequest {
+  query: string;
+  // BCP 47 tag of the language the answer should be written in, e.g. 'gu-IN'.
+  // Without it the model answers in the language of the question.
+  language?: string;
+  // Ask for a streamed response (see GeminiStreamEvent)
+  stream?: boolean;
+  // Skip the answer cache and generate a new answer, e.g. after the user
+  // rejected a saved one
+  fresh?: boolean;
+  // Identifies the conversation the question belongs to; changes when the
+  // user starts a new one
+  conversationId?: string;
+  // Previous turns, oldest first, so follow-ups like "explain that further"
+  // can be understood. Already trimmed to a budget by the client (see
+  // trimConversation); the server trims again.
+  history?: ConversationTurn[];
+  // Voice and speaking style the answer will be spoken in, so cached audio is
+  // only returned when it was synthesized the same way
+  voice?: string;
+  style?: string;
+}
+
+// A Vachanamrut discourse the answer draws on
+export interface Citation {
+  // Discourse identifier as printed in the scripture, e.g. 'Gadhada I-1'
+  id: string;
+  title?: string;
+  // Village where the discourse was delivered, e.g. 'Sarangpur'
+  location?: string;
+  // The quoted passage the answer relies on
+  passage?: string;
+}
+
+export interface GeminiResponse {
+  answer: string;
+  fromCache: boolean;
+  ttsParts: TtsPart[];
+  // Empty when the answer cites nothing (or the backend predates citations)
+  citations: Citation[];
+}
+
+// Events of a streamed /api/gemini response, one per NDJSON line or SSE
+// `data:` field. `delta` carries the next fragment of the answer; `done`
+// carries the complete response in the regular JSON shape.
+export type GeminiStreamEvent =
+  | { type: 'delta'; text: string }
+  | ({ type: 'done' } & GeminiResponse)
+  | { type: 'error'; error: string };
+
+// POST /api/tts
+export interface TtsRequest {
+  text: string;
+  // BCP 47 tag of the text's language
+  language?: string;
+  // Gemini prebuilt voice name (see VOICES); the backend default is 'Puck'
+  voice?: string;
+  // Speaking style instruction, e.g. 'Read this slowly, in a calm voice'
+  style?: string;
+}
+
+export type TtsResponse = TtsPart;
+
+// POST /api/history/save-audio
+export interface SaveAudioRequest {
+  audioBase64: string;
+  mimeType: string;
+  originalMimeType?: string;
+  question: string;
+  answer: string;
+  // Language the answer was requested in, so cached audio is matched per language
+  language?: string;
+  // Voice and style the chunk was synthesized with (see TtsRequest)
+  voice?: string;
+  style?: string;
+  // Below partCount, which is at most MAX_AUDIO_PARTS
+  index: number;
+  // Number of chunks the answer was split into
+  partCount: number;
+  timestamp: number;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+// A listener's report that an answer is wrong
+export interface InaccuracyReport {
+  reason: 'incorrect' | 'wrong-source' | 'off-topic' | 'other';
+  details?: string;
+  // Discourse the answer should have drawn on, e.g. 'Sarangpur-5'
+  correctReference?: string;
+}
+
+// POST /api/feedback
+export interface FeedbackRequest {
+  question: string;
+  answer: string;
+  language?: string;
+  // Whether the answer was served from the answer cache
+  fromCache: boolean;
+  rating?: FeedbackRating;
+  report?: InaccuracyReport;
+}
+
+export interface FeedbackResponse {
+  // True when the answer was removed from the cache because of this feedback
+  invalidated: boolean;
+}
+
+// Stages of answering a question that are timed. `first-audio` runs from
+// asking until the first chunk of speech is ready to play.
+export type MetricStage = 'recognition' | 'gemini' | 'tts' | 'first-audio';
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// One timed stage, measured in the browser or on the server
+export interface MetricEvent {
+  stage: MetricStage;
+  source: 'client' | 'server';
+  durationMs: number;
+  ok: boolean;
+  // Short failure label such as 'HttpError 502' or 'RateLimitError'
+  error?: string;
+  // Whether the answer came from a cache (gemini stage only)
+  fromCache?: boolean;
+  tokens?: TokenUsage;
+  timestamp: number;
+}
+
+// POST /api/metrics (browser timings; the server records its own)
+export interface MetricsReport {
+  events: Array<Omit<MetricEvent, 'source' | 'tokens'>>;
+}
+
+export interface StageSummary {
+  stage: MetricStage;
+  source: MetricEvent['source'];
+  count: number;
+  errors: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+export interface MetricsBucket {
+  start: number;
+  requests: number;
+  errors: number;
+  cacheHits: number;
+  // 95th percentile of server-side answer generation in this bucket
+  geminiP95Ms: number | null;
+  tokens: number;
+}
+
+// GET /api/admin/metrics
+export interface MetricsSummary {
+  from: number;
+  to: number;
+  bucketMs: number;
+  stages: StageSummary[];
+  // Share of server-side answers served from the cache; null without any
+  cacheHitRate: number | null;
+  tokens: TokenUsage;
+  errors: Array<{ stage: MetricStage; source: MetricEvent['source']; error: string; count: number }>;
+  timeline: MetricsBucket[];
+}
+
+// One answer in the server's answer cache, as the admin page lists it
+export interface CachedAnswerSummary {
+  id: string;
+  question: string;
+  answer: string;
+  language?: string;
+  citations: Citation[];
+  // Audio chunks saved so far, and whether they make up the whole answer
+  audioParts: number;
+  audioComplete: boolean;
+  // Curated answers are kept regardless of age or listener feedback
+  pinned: boolean;
+  timestamp: number;
+  editedAt?: number;
+}
+
+// GET /api/admin/cache?q=
+export interface CachedAnswerList {
+  entries: CachedAnswerSummary[];
+  // Matches before the list was capped
+  total: number;
+}
+
+// GET /api/admin/cache/[id]
+export interface CachedAnswerDetail extends CachedAnswerSummary {
+  // Empty unless every chunk is saved
+  ttsParts: TtsPart[];
+}
+
+// POST /api/admin/cache
+export interface PinAnswerRequest {
+  question: string;
+  answer: string;
+  language?: string;
+  citations?: Citation[];
+}
+
+// PATCH /api/admin/cache/[id]. Changing the answer drops its saved audio.
+export interface UpdateCachedAnswerRequest {
+  answer?: string;
+  citations?: Citation[];
+  pinned?: boolean;
+}
+
+// Every backend error body looks like { "error": "..." }
+export interface BackendErrorBody {
+  error: string;
+}
@@ -0,0 +1,21 @@
+import type { TtsPart } from '@/lib/api';
+import { getPartFormat, pcmToFloat32 } from './format';
+import { base64ToBytes } from './wav';
+
+// Turns one TTS part into an AudioBuffer. Raw PCM is converted straight into
+// float samples using the layout in its MIME parameters; WAV, MP3, Ogg/Opus
+// and WebM go through the browser decoder.
+export const decodeTtsPart = async (context: BaseAudioContext, part: TtsPart): Promise<AudioBuffer> => {
+  const bytes = base64ToBytes(part.audio);
+  const format = getPartFormat(part, bytes);
+
+  if (format.encoding === 'pcm') {
+    const channels = pcmToFloat32(bytes, format);
+    const buffer = context.createBuffer(format.channels, Math.max(1, channels[0].length), format.sampleRate);
+    channels.forEach((samples, c) => buffer.copyToChannel(samples, c));
+    return buffer;
+  }
+
+  // decodeAudioData detaches its input, so hand it a standalone copy
+  return context.decodeAudioData(bytes.slice().buffer);
+};
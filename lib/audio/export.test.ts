@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { channelsToPcm16, conformTrack } from './export';
+
+const samples = (...values: number[]) => Float32Array.from(values);
+
+describe('conformTrack', () => {
+  it('leaves a part that already matches alone', () => {
+    const left = samples(0.1, 0.2);
+    const right = samples(0.3, 0.4);
+    expect(conformTrack({ sampleRate: 24000, channels: [left, right] }, 24000, 2)).toEqual([left, right]);
+  });
+
+  it('plays a mono part on every channel', () => {
+    const mono = samples(0.5, -0.5);
+    expect(conformTrack({ sampleRate: 24000, channels: [mono] }, 24000, 2)).toEqual([mono, mono]);
+  });
+
+  it('averages channels when mixing down to mono', () => {
+    const [mixed] = conformTrack({ sampleRate: 24000, channels: [samples(1, 0.5), samples(0, -0.5)] }, 24000, 1);
+    expect(Array.from(mixed)).toEqual([0.5, 0]);
+  });
+
+  it('resamples to the target rate', () => {
+    const [resampled] = conformTrack({ sampleRate: 24000, channels: [samples(0, 1, 0, -1)] }, 48000, 1);
+    expect(resampled).toHaveLength(8);
+    expect(Array.from(resampled.slice(0, 4))).toEqual([0, 0.5, 1, 0.5]);
+  });
+
+  it('gives every part of a mixed answer the same layout', () => {
+    const target = { rate: 48000, channels: 2 };
+    const parts = [
+      { sampleRate: 24000, channels: [samples(0.1, 0.2, 0.3)] },
+      { sampleRate: 48000, channels: [samples(0.1, 0.2), samples(0.3, 0.4)] },
+    ].map(part => conformTrack(part, target.rate, target.channels));
+    expect(parts.map(channels => channels.length)).toEqual([2, 2]);
+    expect(parts.map(channels => channels[0].length)).toEqual([6, 2]);
+  });
+});
+
+describe('channelsToPcm16', () => {
+  it('interleaves channels as clamped 16-bit little-endian samples', () => {
+    const pcm = channelsToPcm16([samples(1, -1), samples(0, 2)]);
+    const view = new DataView(pcm.buffer);
+    expect(Array.from({ length: 4 }, (_, i) => view.getInt16(i * 2, true))).toEqual([0x7fff, 0, -0x8000, 0x7fff]);
+  });
+});
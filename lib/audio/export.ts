@@ -0,0 +1,118 @@
+import type { TtsPart } from '@/lib/api';
+import { decodeTtsPart } from './decode';
+import { extensionFor, getPartFormat, isSamePcmLayout, toLittleEndianPcm } from './format';
+import type { PcmLayout } from './format';
+import { base64ToBlob, base64ToBytes, pcmToWav } from './wav';
+
+export interface AudioFile {
+  blob: Blob;
+  extension: string;
+}
+
+const concatBytes = (chunks: Uint8Array[]) => {
+  const combined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    combined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return combined;
+};
+
+// Float samples of one decoded part, one array per channel
+export interface SampleTrack {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+const mixDown = (channels: Float32Array[]) => {
+  const mixed = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    channel.forEach((sample, i) => {
+      mixed[i] += sample / channels.length;
+    });
+  }
+  return mixed;
+};
+
+// Linear interpolation is plenty for speech
+const resample = (samples: Float32Array, fromRate: number, toRate: number) => {
+  if (fromRate === toRate) return samples;
+  const resampled = new Float32Array(Math.round(samples.length * toRate / fromRate));
+  const step = fromRate / toRate;
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    resampled[i] = samples[index] + (next - samples[index]) * (position - index);
+  }
+  return resampled;
+};
+
+// Brings a part to the given rate and channel count, so parts decoded with
+// different layouts can share one WAV header. Missing channels get the mono
+// mix (a mono part plays on both sides); going to mono averages them.
+export const conformTrack = ({ sampleRate: fromRate, channels }: SampleTrack, sampleRate: number, channelCount: number) => {
+  const mono = channels.length === 1 ? channels[0] : mixDown(channels);
+  const mixed = channelCount === 1
+    ? [mono]
+    : Array.from({ length: channelCount }, (_, c) => channels[c] ?? mono);
+  return mixed.map(samples => resample(samples, fromRate, sampleRate));
+};
+
+// Interleaves float samples into 16-bit little-endian PCM
+export const channelsToPcm16 = (channels: Float32Array[]) => {
+  const length = channels[0]?.length ?? 0;
+  const bytes = new Uint8Array(length * channels.length * 2);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return bytes;
+};
+
+// Joins the parts of one answer into a single downloadable file. Raw PCM parts
+// that share a layout are concatenated and wrapped with pcmToWav; a lone
+// encoded part is passed through; anything else is decoded, brought to the
+// highest rate and channel count among the parts and re-encoded as 16-bit WAV.
+export const buildAnswerAudioFile = async (parts: TtsPart[]): Promise<AudioFile> => {
+  if (parts.length === 0) {
+    throw new Error('This answer has no saved audio');
+  }
+
+  const decoded = parts.map((part) => {
+    const bytes = base64ToBytes(part.audio);
+    return { bytes, format: getPartFormat(part, bytes) };
+  });
+
+  const pcmLayouts = decoded.flatMap(({ format }) => (format.encoding === 'pcm' ? [format as PcmLayout] : []));
+  if (pcmLayouts.length === parts.length && pcmLayouts.every(layout => isSamePcmLayout(layout, pcmLayouts[0]))) {
+    const layout = pcmLayouts[0];
+    const pcm = concatBytes(decoded.map(({ bytes }) => toLittleEndianPcm(bytes, layout)));
+    return { blob: pcmToWav(pcm, layout.sampleRate, layout.channels, layout.bitsPerSample), extension: 'wav' };
+  }
+
+  if (parts.length === 1) {
+    const { format } = decoded[0];
+    return { blob: base64ToBlob(parts[0].audio, parts[0].mimeType), extension: extensionFor(format) };
+  }
+
+  const context = new AudioContext();
+  try {
+    const buffers = await Promise.all(parts.map(part => decodeTtsPart(context, part)));
+    const sampleRate = Math.max(...buffers.map(buffer => buffer.sampleRate));
+    const channelCount = Math.max(...buffers.map(buffer => buffer.numberOfChannels));
+    const pcm = concatBytes(buffers.map((buffer) => {
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+      return channelsToPcm16(conformTrack({ sampleRate: buffer.sampleRate, channels }, sampleRate, channelCount));
+    }));
+    return { blob: pcmToWav(pcm, sampleRate, channelCount), extension: 'wav' };
+  } finally {
+    void context.close();
+  }
+};
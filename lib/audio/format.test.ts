@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PCM_SAMPLE_RATE, parseAudioFormat, toLittleEndianPcm } from './format';
+import type { PcmLayout } from './format';
+
+describe('parseAudioFormat', () => {
+  it('reads Gemini TTS output as little-endian 16-bit PCM at its rate', () => {
+    expect(parseAudioFormat('audio/L16;codec=pcm;rate=24000')).toEqual({
+      encoding: 'pcm',
+      mimeType: 'audio/l16',
+      sampleRate: 24000,
+      channels: 1,
+      bitsPerSample: 16,
+      littleEndian: true,
+    });
+  });
+
+  it('treats plain audio/L16 as big-endian, as RFC 2586 defines it', () => {
+    expect(parseAudioFormat('audio/L16; rate=16000; channels=2')).toMatchObject({
+      encoding: 'pcm',
+      sampleRate: 16000,
+      channels: 2,
+      bitsPerSample: 16,
+      littleEndian: false,
+    });
+  });
+
+  it('lets an explicit endianness parameter win', () => {
+    expect(parseAudioFormat('audio/L16;rate=24000;endianness=little')).toMatchObject({ littleEndian: true });
+    expect(parseAudioFormat('audio/pcm;endianness=big')).toMatchObject({ littleEndian: false });
+  });
+
+  it('falls back to the Gemini rate and mono when parameters are missing or invalid', () => {
+    expect(parseAudioFormat('audio/pcm;rate=abc;channels=0')).toMatchObject({
+      encoding: 'pcm',
+      sampleRate: DEFAULT_PCM_SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+    });
+  });
+
+  it('reads the sample width from the type or a bits parameter', () => {
+    expect(parseAudioFormat('audio/L24;rate=48000')).toMatchObject({ bitsPerSample: 24, littleEndian: false });
+    expect(parseAudioFormat('audio/L8')).toMatchObject({ bitsPerSample: 8 });
+    expect(parseAudioFormat('audio/raw;bits=32')).toMatchObject({ bitsPerSample: 32 });
+    expect(parseAudioFormat('audio/s16be')).toMatchObject({ bitsPerSample: 16, littleEndian: false });
+  });
+
+  it('recognizes container formats', () => {
+    expect(parseAudioFormat('audio/wav')).toEqual({ encoding: 'wav', mimeType: 'audio/wav' });
+    expect(parseAudioFormat('Audio/MPEG')).toEqual({ encoding: 'mp3', mimeType: 'audio/mpeg' });
+    expect(parseAudioFormat('audio/ogg; codecs=opus')).toEqual({ encoding: 'ogg', mimeType: 'audio/ogg' });
+    expect(parseAudioFormat('audio/webm')).toEqual({ encoding: 'webm', mimeType: 'audio/webm' });
+    expect(parseAudioFormat('application/octet-stream')).toEqual({ encoding: 'unknown', mimeType: 'application/octet-stream' });
+  });
+});
+
+describe('toLittleEndianPcm', () => {
+  const layout = (bitsPerSample: PcmLayout['bitsPerSample'], littleEndian: boolean): PcmLayout =>
+    ({ sampleRate: 24000, channels: 1, bitsPerSample, littleEndian });
+
+  it('swaps the bytes of each big-endian 16-bit sample', () => {
+    const bytes = new Uint8Array([0x12, 0x34, 0xab, 0xcd]);
+    expect(Array.from(toLittleEndianPcm(bytes, layout(16, false)))).toEqual([0x34, 0x12, 0xcd, 0xab]);
+  });
+
+  it('reverses each big-endian 24-bit sample', () => {
+    const bytes = new Uint8Array([0x01, 0x02, 0x03, 0x04, 0x05, 0x06]);
+    expect(Array.from(toLittleEndianPcm(bytes, layout(24, false)))).toEqual([0x03, 0x02, 0x01, 0x06, 0x05, 0x04]);
+  });
+
+  it('leaves little-endian and 8-bit samples untouched', () => {
+    const bytes = new Uint8Array([0x12, 0x34, 0x56, 0x78]);
+    expect(Array.from(toLittleEndianPcm(bytes, layout(16, true)))).toEqual([0x12, 0x34, 0x56, 0x78]);
+    expect(Array.from(toLittleEndianPcm(bytes, layout(8, false)))).toEqual([0x12, 0x34, 0x56, 0x78]);
+  });
+
+  it('drops a trailing partial sample', () => {
+    const bytes = new Uint8Array([0x12, 0x34, 0x56]);
+    expect(Array.from(toLittleEndianPcm(bytes, layout(16, false)))).toEqual([0x34, 0x12]);
+    expect(toLittleEndianPcm(bytes, layout(16, true)).length).toBe(2);
+  });
+
+  it('produces samples a WAV header can label as little-endian', () => {
+    const bigEndian = new Uint8Array([0x7f, 0xff, 0x80, 0x00]);
+    const view = new DataView(toLittleEndianPcm(bigEndian, layout(16, false)).buffer);
+    expect(view.getInt16(0, true)).toBe(32767);
+    expect(view.getInt16(2, true)).toBe(-32768);
+  });
+});
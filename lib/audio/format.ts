@@ -0,0 +1,198 @@
+import type { TtsPart } from '@/lib/api';
+
+// Works out how a TTS part is encoded from its MIME type parameters (and, as
+// a fallback, its first bytes), so raw PCM is decoded at its real rate,
+// channel count, sample width and byte order instead of assuming Gemini's
+// 24 kHz mono 16-bit little-endian.
+
+export type AudioEncoding = 'pcm' | 'wav' | 'mp3' | 'ogg' | 'webm' | 'unknown';
+
+export interface PcmLayout {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: 8 | 16 | 24 | 32;
+  littleEndian: boolean;
+}
+
+export type AudioFormat =
+  | ({ encoding: 'pcm'; mimeType: string } & PcmLayout)
+  | { encoding: Exclude<AudioEncoding, 'pcm'>; mimeType: string };
+
+// Gemini TTS leaves `rate` off some responses; this is its output rate
+export const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+export interface MimeType {
+  // Lower-cased type/subtype, e.g. 'audio/l16'
+  essence: string;
+  // Lower-cased parameter names; values keep their case, quotes removed
+  params: Record<string, string>;
+}
+
+export const parseMimeType = (value: string): MimeType => {
+  const [essence = '', ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    const name = param.slice(0, eq).trim().toLowerCase();
+    const raw = param.slice(eq + 1).trim();
+    if (name) params[name] = raw.replace(/^"(.*)"$/, '$1');
+  }
+  return { essence: essence.trim().toLowerCase(), params };
+};
+
+const ENCODED_TYPES: Record<string, Exclude<AudioEncoding, 'pcm' | 'unknown'>> = {
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/vnd.wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'ogg',
+  'audio/webm': 'webm',
+};
+
+// Linear PCM types and the sample width their name implies
+const PCM_TYPES: Record<string, PcmLayout['bitsPerSample'] | undefined> = {
+  'audio/l8': 8,
+  'audio/l16': 16,
+  'audio/l24': 24,
+  'audio/pcm': undefined,
+  'audio/x-pcm': undefined,
+  'audio/raw': undefined,
+  'audio/s16le': 16,
+  'audio/s16be': 16,
+};
+
+const positiveInt = (value: string | undefined) => {
+  const n = value === undefined ? NaN : Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+};
+
+const sampleWidth = (value: number | undefined): PcmLayout['bitsPerSample'] | undefined =>
+  value === 8 || value === 16 || value === 24 || value === 32 ? value : undefined;
+
+// Byte order of linear PCM. RFC 2586 defines audio/L16 as big-endian
+// (network order), but Gemini labels its little-endian output
+// "audio/L16;codec=pcm", so that codec parameter means little-endian. An
+// explicit `endianness` parameter always wins.
+const isLittleEndian = ({ essence, params }: MimeType) => {
+  const endianness = params.endianness?.toLowerCase();
+  if (endianness === 'little') return true;
+  if (endianness === 'big') return false;
+  if (essence === 'audio/s16be') return false;
+  if (essence === 'audio/l16' || essence === 'audio/l24') return params.codec?.toLowerCase() === 'pcm';
+  return true;
+};
+
+export const parseAudioFormat = (mimeType: string): AudioFormat => {
+  const mime = parseMimeType(mimeType);
+  const { essence, params } = mime;
+
+  if (essence in PCM_TYPES) {
+    const bits = PCM_TYPES[essence] ?? sampleWidth(positiveInt(params.bits ?? params.bitdepth)) ?? 16;
+    return {
+      encoding: 'pcm',
+      mimeType: essence,
+      sampleRate: positiveInt(params.rate) ?? DEFAULT_PCM_SAMPLE_RATE,
+      channels: positiveInt(params.channels) ?? 1,
+      bitsPerSample: bits,
+      littleEndian: isLittleEndian(mime),
+    };
+  }
+
+  const encoded = ENCODED_TYPES[essence];
+  if (encoded) return { encoding: encoded, mimeType: essence };
+  if (essence.includes('mpeg') || essence.includes('mp3')) return { encoding: 'mp3', mimeType: essence };
+  if (essence.includes('ogg') || essence.includes('opus')) return { encoding: 'ogg', mimeType: essence };
+  return { encoding: 'unknown', mimeType: essence };
+};
+
+const startsWith = (bytes: Uint8Array, ascii: string, offset = 0) =>
+  bytes.length >= offset + ascii.length
+  && Array.from(ascii).every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+// Container formats recognizable from their first bytes
+export const sniffEncoding = (bytes: Uint8Array): Exclude<AudioEncoding, 'pcm'> => {
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WAVE', 8)) return 'wav';
+  if (startsWith(bytes, 'OggS')) return 'ogg';
+  if (startsWith(bytes, 'ID3') || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'mp3';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  return 'unknown';
+};
+
+// Format of a TTS part. originalMimeType describes the bytes as produced;
+// mimeType is what the backend says to play them as. Data labelled PCM that
+// is really a container (some backends wrap it already) is trusted by content.
+export const getPartFormat = (part: TtsPart, bytes?: Uint8Array): AudioFormat => {
+  const format = parseAudioFormat(part.originalMimeType ?? part.mimeType);
+  if (format.encoding !== 'pcm' && format.encoding !== 'unknown') return format;
+  const sniffed = bytes ? sniffEncoding(bytes) : 'unknown';
+  if (sniffed !== 'unknown') return { encoding: sniffed, mimeType: part.mimeType };
+  if (format.encoding === 'pcm') return format;
+  // No usable original type: fall back to the playback type
+  return part.originalMimeType ? parseAudioFormat(part.mimeType) : format;
+};
+
+export const isSamePcmLayout = (a: PcmLayout, b: PcmLayout) =>
+  a.sampleRate === b.sampleRate
+  && a.channels === b.channels
+  && a.bitsPerSample === b.bitsPerSample
+  && a.littleEndian === b.littleEndian;
+
+const readSample = (view: DataView, offset: number, { bitsPerSample, littleEndian }: PcmLayout) => {
+  switch (bitsPerSample) {
+    case 8:
+      // 8-bit linear PCM is offset binary: 128 is silence
+      return (view.getUint8(offset) - 128) / 0x80;
+    case 16:
+      return view.getInt16(offset, littleEndian) / 0x8000;
+    case 24: {
+      const [b0, b1, b2] = [view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2)];
+      const value = littleEndian ? b0 | (b1 << 8) | (b2 << 16) : (b0 << 16) | (b1 << 8) | b2;
+      return ((value << 8) >> 8) / 0x800000;
+    }
+    case 32:
+      return view.getInt32(offset, littleEndian) / 0x80000000;
+  }
+};
+
+// De-interleaves raw PCM into one Float32Array per channel
+export const pcmToFloat32 = (bytes: Uint8Array, layout: PcmLayout) => {
+  const bytesPerSample = layout.bitsPerSample / 8;
+  const frameSize = bytesPerSample * layout.channels;
+  const frameCount = Math.floor(bytes.byteLength / frameSize);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const channels = Array.from({ length: layout.channels }, () => new Float32Array(frameCount));
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let c = 0; c < layout.channels; c++) {
+      channels[c][frame] = readSample(view, frame * frameSize + c * bytesPerSample, layout);
+    }
+  }
+  return channels;
+};
+
+// WAV stores samples little-endian; big-endian PCM has its bytes swapped.
+// Trailing bytes that don't make a whole sample are dropped.
+export const toLittleEndianPcm = (bytes: Uint8Array, layout: PcmLayout): Uint8Array => {
+  const width = layout.bitsPerSample / 8;
+  const usable = bytes.byteLength - (bytes.byteLength % width);
+  if (layout.littleEndian || width === 1) return bytes.subarray(0, usable);
+  const swapped = new Uint8Array(usable);
+  for (let i = 0; i < usable; i += width) {
+    for (let j = 0; j < width; j++) swapped[i + j] = bytes[i + width - 1 - j];
+  }
+  return swapped;
+};
+
+export const extensionFor = (format: AudioFormat) => {
+  switch (format.encoding) {
+    case 'mp3':
+    case 'ogg':
+    case 'webm':
+      return format.encoding;
+    default:
+      return 'wav';
+  }
+};
@@ -0,0 +1,310 @@
+// Multi-part answer player built on the Web Audio API. Parts are decoded
+// AudioBuffers that may still be arriving (chunked TTS); the player treats them
+// as one continuous track for seeking and progress.
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  // Index of the part being played
+  partIndex: number;
+  partCount: number;
+  // Seconds into the whole answer (at 1x speed)
+  position: number;
+  // Total length of the parts decoded so far
+  duration: number;
+  // True once every part has been decoded, so `duration` is final
+  durationKnown: boolean;
+  rate: number;
+}
+
+export const MIN_PLAYBACK_RATE = 0.75;
+export const MAX_PLAYBACK_RATE = 2;
+
+// Pressing "previous" this far into a part restarts it instead of going back
+const RESTART_THRESHOLD_S = 2;
+const PROGRESS_INTERVAL_MS = 200;
+
+type Listener = (state: PlaybackState) => void;
+
+interface Part {
+  buffer?: AudioBuffer;
+  ready: Promise<AudioBuffer>;
+}
+
+export const initialPlaybackState: PlaybackState = {
+  status: 'idle',
+  partIndex: 0,
+  partCount: 0,
+  position: 0,
+  duration: 0,
+  durationKnown: false,
+  rate: 1,
+};
+
+export class AudioQueuePlayer {
+  private context: AudioContext | null = null;
+  private listeners = new Set<Listener>();
+  private parts: Part[] = [];
+  private source: AudioBufferSourceNode | null = null;
+  private partIndex = 0;
+  // Offset into the current part at `startedAt`, in buffer seconds
+  private partOffset = 0;
+  private startedAt = 0;
+  private rate = 1;
+  private status: PlaybackStatus = 'idle';
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+  // Bumped on every play()/stop() so callbacks from an old queue are ignored
+  private generation = 0;
+  private settle: ((completed: boolean) => void) | null = null;
+  private fail: ((err: unknown) => void) | null = null;
+
+  get audioContext(): AudioContext {
+    if (!this.context) {
+      const Context = window.AudioContext
+        ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!Context) throw new Error('Web Audio is not supported in this browser');
+      this.context = new Context();
+    }
+    return this.context;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): PlaybackState {
+    const durations = this.parts.map(part => part.buffer?.duration ?? 0);
+    const before = durations.slice(0, this.partIndex).reduce((sum, d) => sum + d, 0);
+    return {
+      status: this.status,
+      partIndex: this.partIndex,
+      partCount: this.parts.length,
+      position: before + this.currentPartPosition(),
+      duration: durations.reduce((sum, d) => sum + d, 0),
+      durationKnown: this.parts.length > 0 && this.parts.every(part => part.buffer),
+      rate: this.rate,
+    };
+  }
+
+  // Replaces the queue and plays the parts in order. Resolves with true when
+  // the last part finishes, false if stopped or replaced first; rejects if a
+  // part fails to load.
+  play(parts: Array<AudioBuffer | Promise<AudioBuffer>>): Promise<boolean> {
+    this.stop();
+    const generation = this.generation;
+
+    this.parts = parts.map((source) => {
+      const part: Part = { ready: Promise.resolve(source) };
+      part.ready.then((buffer) => {
+        if (generation !== this.generation) return;
+        part.buffer = buffer;
+        this.emit();
+      }, () => {});
+      return part;
+    });
+
+    const done = new Promise<boolean>((resolve, reject) => {
+      this.settle = resolve;
+      this.fail = reject;
+    });
+
+    void this.audioContext.resume();
+    this.startPart(0, 0);
+    this.startProgressTimer();
+    return done;
+  }
+
+  pause() {
+    if (this.status !== 'playing') return;
+    this.partOffset = this.currentPartPosition();
+    this.stopSource();
+    this.status = 'paused';
+    this.emit();
+  }
+
+  resume() {
+    if (this.status !== 'paused') return;
+    void this.audioContext.resume();
+    this.startPart(this.partIndex, this.partOffset);
+  }
+
+  next() {
+    if (this.status === 'idle') return;
+    if (this.partIndex + 1 >= this.parts.length) {
+      this.finish(true);
+      return;
+    }
+    this.jumpTo(this.partIndex + 1, 0);
+  }
+
+  previous() {
+    if (this.status === 'idle') return;
+    const target = this.currentPartPosition() > RESTART_THRESHOLD_S ? this.partIndex : Math.max(0, this.partIndex - 1);
+    this.jumpTo(target, 0);
+  }
+
+  // Seeks within the whole answer; `seconds` counts only decoded parts
+  seek(seconds: number) {
+    if (this.status === 'idle') return;
+    let remaining = Math.max(0, seconds);
+    for (let i = 0; i < this.parts.length; i++) {
+      const buffer = this.parts[i].buffer;
+      if (!buffer) break;
+      if (remaining < buffer.duration || i === this.parts.length - 1) {
+        this.jumpTo(i, Math.min(remaining, buffer.duration));
+        return;
+      }
+      remaining -= buffer.duration;
+    }
+  }
+
+  setRate(rate: number) {
+    const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+    // Re-anchor the clock so position stays continuous across the change
+    this.partOffset = this.currentPartPosition();
+    this.startedAt = this.context?.currentTime ?? 0;
+    this.rate = clamped;
+    if (this.source) this.source.playbackRate.value = clamped;
+    this.emit();
+  }
+
+  stop() {
+    this.generation++;
+    this.stopSource();
+    this.stopProgressTimer();
+    this.parts = [];
+    this.partIndex = 0;
+    this.partOffset = 0;
+    this.status = 'idle';
+    const settle = this.settle;
+    this.settle = null;
+    this.fail = null;
+    settle?.(false);
+    this.emit();
+  }
+
+  private currentPartPosition(): number {
+    if (this.status !== 'playing' || !this.context) return this.partOffset;
+    const buffer = this.parts[this.partIndex]?.buffer;
+    const elapsed = (this.context.currentTime - this.startedAt) * this.rate;
+    return Math.min(this.partOffset + elapsed, buffer?.duration ?? Infinity);
+  }
+
+  private jumpTo(index: number, offset: number) {
+    const wasPaused = this.status === 'paused';
+    this.stopSource();
+    if (wasPaused) {
+      // Stay paused, but remember where to resume from
+      this.partIndex = index;
+      this.partOffset = offset;
+      this.emit();
+      return;
+    }
+    this.startPart(index, offset);
+  }
+
+  private startPart(index: number, offset: number) {
+    const generation = this.generation;
+    const part = this.parts[index];
+    this.partIndex = index;
+    this.partOffset = offset;
+
+    if (!part) {
+      this.finish(true);
+      return;
+    }
+
+    if (!part.buffer) {
+      // Still synthesizing: wait, then start unless the queue moved on
+      this.status = 'loading';
+      this.emit();
+      part.ready.then(
+        () => {
+          if (generation === this.generation && this.status === 'loading' && this.partIndex === index) {
+            this.startPart(index, this.partOffset);
+          }
+        },
+        (err) => {
+          if (generation !== this.generation) return;
+          const fail = this.fail;
+          this.settle = null;
+          this.fail = null;
+          this.stop();
+          fail?.(err);
+        },
+      );
+      return;
+    }
+
+    const context = this.audioContext;
+    const source = context.createBufferSource();
+    source.buffer = part.buffer;
+    source.playbackRate.value = this.rate;
+    source.connect(context.destination);
+    source.onended = () => {
+      // Sources stopped by pause/seek/stop are detached before this fires
+      if (this.source !== source) return;
+      this.source = null;
+      this.startPart(index + 1, 0);
+    };
+
+    this.source = source;
+    this.startedAt = context.currentTime;
+    this.status = 'playing';
+    source.start(0, offset);
+    this.emit();
+  }
+
+  private stopSource() {
+    const source = this.source;
+    this.source = null;
+    if (source) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      source.disconnect();
+    }
+  }
+
+  private finish(completed: boolean) {
+    const settle = this.settle;
+    this.settle = null;
+    this.fail = null;
+    this.stopSource();
+    this.stopProgressTimer();
+    this.generation++;
+    this.parts = [];
+    this.partIndex = 0;
+    this.partOffset = 0;
+    this.status = 'idle';
+    this.emit();
+    settle?.(completed);
+  }
+
+  private startProgressTimer() {
+    this.stopProgressTimer();
+    this.progressTimer = setInterval(() => {
+      if (this.status === 'playing') this.emit();
+    }, PROGRESS_INTERVAL_MS);
+  }
+
+  private stopProgressTimer() {
+    if (this.progressTimer) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+  }
+
+  private emit() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
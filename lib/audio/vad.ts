@@ -0,0 +1,85 @@
+// Microphone voice activity detector used for barge-in: it listens while an
+// answer is playing and reports when the user starts talking over it. Echo
+// cancellation keeps the answer audio itself from triggering it.
+
+export interface VoiceActivityOptions {
+  onSpeech: () => void;
+  // Minimum RMS level counted as speech, whatever the background noise
+  minLevel?: number;
+  // Speech must be this many times louder than the measured noise floor
+  noiseRatio?: number;
+  // ...for at least this long before onSpeech fires
+  minSpeechMs?: number;
+}
+
+const FRAME_MS = 50;
+// Ignore the first moments while the noise floor settles
+const WARMUP_MS = 400;
+
+export class VoiceActivityDetector {
+  private readonly options: Required<VoiceActivityOptions>;
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+
+  constructor(options: VoiceActivityOptions) {
+    this.options = { minLevel: 0.03, noiseRatio: 3, minSpeechMs: 250, ...options };
+  }
+
+  async start() {
+    this.stopped = false;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+    });
+    // stop() may have been called while the permission prompt was open
+    if (this.stopped) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.stream = stream;
+
+    const context = new AudioContext();
+    this.context = context;
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    const startedAt = Date.now();
+    let noiseFloor = this.options.minLevel / this.options.noiseRatio;
+    let speechMs = 0;
+
+    this.timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const level = Math.sqrt(sum / samples.length);
+
+      const threshold = Math.max(this.options.minLevel, noiseFloor * this.options.noiseRatio);
+      if (level > threshold && Date.now() - startedAt > WARMUP_MS) {
+        speechMs += FRAME_MS;
+        if (speechMs >= this.options.minSpeechMs) {
+          this.stop();
+          this.options.onSpeech();
+        }
+      } else {
+        speechMs = 0;
+        // Track the background slowly so a sudden voice stands out
+        noiseFloor = noiseFloor * 0.95 + level * 0.05;
+      }
+    }, FRAME_MS);
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    void this.context?.close();
+    this.context = null;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { pcmToWav } from './wav';
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const readWav = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+describe('pcmToWav', () => {
+  it('writes the 44-byte RIFF/WAVE header for Gemini 24 kHz mono 16-bit PCM', async () => {
+    const pcm = new Uint8Array([0x01, 0x02, 0x03, 0x04, 0x05, 0x06]);
+    const blob = pcmToWav(pcm);
+    const { bytes, view } = await readWav(blob);
+
+    expect(blob.type).toBe('audio/wav');
+    expect(bytes.length).toBe(44 + pcm.length);
+    expect(ascii(bytes, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + pcm.length);
+    expect(ascii(bytes, 8, 4)).toBe('WAVE');
+    expect(ascii(bytes, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(bytes, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(pcm.length);
+    expect(bytes.subarray(44)).toEqual(pcm);
+  });
+
+  it('matches a known header byte for byte', async () => {
+    const { bytes } = await readWav(pcmToWav(new Uint8Array(4), 24000, 1, 16));
+    expect(Array.from(bytes.subarray(0, 44))).toEqual([
+      0x52, 0x49, 0x46, 0x46, // "RIFF"
+      0x28, 0x00, 0x00, 0x00, // 36 + 4
+      0x57, 0x41, 0x56, 0x45, // "WAVE"
+      0x66, 0x6d, 0x74, 0x20, // "fmt "
+      0x10, 0x00, 0x00, 0x00, // fmt chunk length 16
+      0x01, 0x00, // PCM
+      0x01, 0x00, // 1 channel
+      0xc0, 0x5d, 0x00, 0x00, // 24000 Hz
+      0x80, 0xbb, 0x00, 0x00, // 48000 bytes per second
+      0x02, 0x00, // block align
+      0x10, 0x00, // 16 bits per sample
+      0x64, 0x61, 0x74, 0x61, // "data"
+      0x04, 0x00, 0x00, 0x00, // 4 data bytes
+    ]);
+  });
+
+  it('derives byte rate and block align from the layout', async () => {
+    const { view } = await readWav(pcmToWav(new Uint8Array(12), 44100, 2, 24));
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 2 * 3);
+    expect(view.getUint16(32, true)).toBe(6);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(12);
+  });
+
+  it('writes an empty data chunk for empty input', async () => {
+    const { bytes, view } = await readWav(pcmToWav(new Uint8Array(0)));
+    expect(bytes.length).toBe(44);
+    expect(view.getUint32(4, true)).toBe(36);
+    expect(view.getUint32(40, true)).toBe(0);
+  });
+});
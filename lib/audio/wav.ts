@@ -0,0 +1,51 @@
+export const base64ToBytes = (base64: string) => {
+  const byteCharacters = atob(base64);
+  const bytes = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    bytes[i] = byteCharacters.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const base64ToBlob = (base64: string, mimeType: string) =>
+  new Blob([base64ToBytes(base64)], { type: mimeType });
+
+export const pcmToWav = (pcmData: Uint8Array, sampleRate: number = 24000, numChannels: number = 1, bitsPerSample: number = 16): Blob => {
+  const byteRate = sampleRate * numChannels * bitsPerSample / 8;
+  const blockAlign = numChannels * bitsPerSample / 8;
+  const wavHeader = new ArrayBuffer(44);
+  const view = new DataView(wavHeader);
+
+  // RIFF identifier
+  view.setUint32(0, 0x52494646, false); // "RIFF"
+  // file length
+  view.setUint32(4, 36 + pcmData.length, true);
+  // RIFF type & Format
+  view.setUint32(8, 0x57415645, false); // "WAVE"
+  view.setUint32(12, 0x666D7420, false); // "fmt "
+  // format chunk length
+  view.setUint32(16, 16, true);
+  // sample format (PCM)
+  view.setUint16(20, 1, true);
+  // channel count
+  view.setUint16(22, numChannels, true);
+  // sample rate
+  view.setUint32(24, sampleRate, true);
+  // byte rate
+  view.setUint32(28, byteRate, true);
+  // block align
+  view.setUint16(32, blockAlign, true);
+  // bits per sample
+  view.setUint16(34, bitsPerSample, true);
+  // data chunk identifier
+  view.setUint32(36, 0x64617461, false); // "data"
+  // data chunk length
+  view.setUint32(40, pcmData.length, true);
+
+  // Create a new array to avoid type issues
+  const headerArray = new Uint8Array(wavHeader);
+  const combinedArray = new Uint8Array(headerArray.length + pcmData.length);
+  combinedArray.set(headerArray, 0);
+  combinedArray.set(pcmData, headerArray.length);
+  return new Blob([combinedArray], { type: 'audio/wav' });
+};
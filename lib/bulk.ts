@@ -0,0 +1,81 @@
+// Parsing of question lists for bulk mode: pasted text, .txt files (one
+// question per line) and .csv files (a "question" column, or the first one).
+
+export const MAX_BULK_QUESTIONS = 100;
+
+// "1.", "2)", "Q3:", "-", "*" and "•" prefixes from numbered or bulleted lists
+const LIST_PREFIX = /^\s*(?:(?:q(?:uestion)?\s*)?\d+\s*[.):-]|[-*•])\s*/i;
+
+// Splits one CSV record into fields, honouring double-quoted fields
+const parseCsvLine = (line: string) => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+};
+
+// Splits CSV text into records; newlines inside quoted fields stay in the field
+const splitCsvRecords = (text: string) => {
+  const records: string[] = [];
+  let current = '';
+  let quotes = 0;
+  for (const line of text.split(/\r?\n/)) {
+    current = current ? `${current}\n${line}` : line;
+    quotes += (line.match(/"/g) ?? []).length;
+    if (quotes % 2 === 0) {
+      records.push(current);
+      current = '';
+      quotes = 0;
+    }
+  }
+  if (current) records.push(current);
+  return records;
+};
+
+const parseCsv = (text: string) => {
+  const rows = splitCsvRecords(text).filter(record => record.trim()).map(parseCsvLine);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const column = header.findIndex(cell => cell === 'question' || cell === 'questions' || cell === 'prashna' || cell === 'પ્રશ્ન');
+  return column === -1
+    ? rows.map(row => row[0])
+    : rows.slice(1).map(row => row[column] ?? '');
+};
+
+const isCsvFile = (filename?: string) => !!filename && /\.csv$/i.test(filename);
+
+// Returns the questions in order, without list numbering, blanks or duplicates
+export const parseQuestionList = (text: string, filename?: string): string[] => {
+  const raw = isCsvFile(filename) ? parseCsv(text) : text.split(/\r?\n/);
+
+  const seen = new Set<string>();
+  const questions: string[] = [];
+  for (const line of raw) {
+    const question = line.replace(LIST_PREFIX, '').replace(/\s+/g, ' ').trim();
+    if (!question || seen.has(question.toLowerCase())) continue;
+    seen.add(question.toLowerCase());
+    questions.push(question);
+  }
+  return questions;
+};
@@ -0,0 +1,66 @@
+// Runs `task` for every item with at most `limit` calls in flight. Returns one
+// promise per item, in input order, so callers can consume each result as soon
+// as it settles rather than waiting for the whole batch.
+export const mapWithConcurrency = <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R>[] => {
+  const settlers: Array<{ resolve: (value: R) => void; reject: (reason: unknown) => void }> = [];
+  const promises = items.map(() => new Promise<R>((resolve, reject) => {
+    settlers.push({ resolve, reject });
+  }));
+
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        settlers[index].resolve(await task(items[index], index));
+      } catch (err) {
+        settlers[index].reject(err);
+      }
+    }
+  };
+
+  for (let i = 0; i < Math.min(Math.max(1, limit), items.length); i++) {
+    void worker();
+  }
+
+  return promises;
+};
+
+// Spaces calls out to at most `perMinute` per minute. Each `wait()` resolves
+// once the caller may make its next request; rejects with an AbortError if
+// `signal` fires first.
+export const createRatePacer = (perMinute: number) => {
+  const intervalMs = 60_000 / Math.max(1, perMinute);
+  let nextAt = 0;
+
+  return {
+    wait: (signal?: AbortSignal) => {
+      const now = Date.now();
+      const delay = Math.max(0, nextAt - now);
+      nextAt = Math.max(now, nextAt) + intervalMs;
+      return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new DOMException('Aborted', 'AbortError'));
+          return;
+        }
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, delay);
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    },
+    // Holds every later wait() back for at least `ms`, e.g. after a 429
+    pause: (ms: number) => {
+      nextAt = Math.max(nextAt, Date.now() + ms);
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import type { ConversationTurn } from '@/lib/api/types';
+
+// Budget for the conversation context sent with each question. Characters
+// stand in for tokens; Gujarati and Hindi use more tokens per character, so
+// the limit is kept well below the model's context window.
+export const MAX_CONTEXT_TURNS = 6;
+export const MAX_CONTEXT_CHARS = 6000;
+
+interface TrimOptions {
+  maxTurns?: number;
+  maxChars?: number;
+}
+
+const turnLength = (turn: ConversationTurn) => turn.question.length + turn.answer.length;
+
+// Keeps the most recent turns that fit the budget, oldest first. A turn that
+// would overflow the budget is dropped along with everything before it, so the
+// window never has gaps.
+export const trimConversation = (
+  turns: ConversationTurn[],
+  { maxTurns = MAX_CONTEXT_TURNS, maxChars = MAX_CONTEXT_CHARS }: TrimOptions = {},
+): ConversationTurn[] => {
+  const kept: ConversationTurn[] = [];
+  let chars = 0;
+  for (let i = turns.length - 1; i >= 0 && kept.length < maxTurns; i--) {
+    chars += turnLength(turns[i]);
+    if (chars > maxChars) break;
+    kept.unshift(turns[i]);
+  }
+  return kept;
+};
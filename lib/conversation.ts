@@ -0,0 +1,33 @@
+// Spoken commands for hands-free conversation mode. A question that consists
+// only of one of these phrases toggles the mode instead of being sent.
+
+export const WAKE_PHRASES = [
+  'start conversation',
+  'conversation mode',
+  'વાતચીત શરૂ કરો',
+  'बातचीत शुरू करो',
+];
+
+export const EXIT_PHRASES = [
+  'stop conversation',
+  'end conversation',
+  'stop listening',
+  'વાતચીત બંધ કરો',
+  'બસ',
+  'बातचीत बंद करो',
+];
+
+// Conversation mode switches itself off after this long without a question
+export const CONVERSATION_IDLE_TIMEOUT_MS = 60_000;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const matchesPhrase = (transcript: string, phrases: string[]) => {
+  const heard = normalize(transcript);
+  return phrases.some(phrase => heard === normalize(phrase));
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIMILARITY_THRESHOLD, findSimilarEntry, questionSimilarity } from './match';
+import type { HistoryEntry } from './store';
+
+const isMatch = (a: string, b: string) => questionSimilarity(a, b) >= DEFAULT_SIMILARITY_THRESHOLD;
+
+describe('questionSimilarity', () => {
+  it.each([
+    ['What does Gadhada I-1 say?', 'What does Gadhada I-2 say?'],
+    ['What does Gadhada I-1 say?', 'What does Gadhada II-1 say?'],
+    ['Explain Sarangpur 5', 'Explain Sarangpur 15'],
+    ['Explain Sarangpur ૫', 'Explain Sarangpur ૧૫'],
+  ])('treats different numbers or discourses as different questions: %s / %s', (a, b) => {
+    expect(questionSimilarity(a, b)).toBe(0);
+  });
+
+  it.each([
+    ['Is Maharaj God?', 'Is Maharaj not God?'],
+    ["Why don't we see God?", 'Why do we see God?'],
+    ['શું મહારાજ ભગવાન છે?', 'શું મહારાજ ભગવાન નથી?'],
+  ])('treats an added or removed negation as a different question: %s / %s', (a, b) => {
+    expect(questionSimilarity(a, b)).toBe(0);
+  });
+
+  it.each([
+    ['What does the Vachanamrut say about anger?', 'What does the Vachanamrut say about ego?'],
+    ['What is bhakti?', 'What is shakti?'],
+    ['What is maya?', 'What is moksha?'],
+    [
+      'How should a devotee behave toward other devotees according to the Vachanamrut?',
+      'How should a devotee behave toward other sadhus according to the Vachanamrut?',
+    ],
+  ])('keeps questions about different subjects apart: %s / %s', (a, b) => {
+    expect(isMatch(a, b)).toBe(false);
+  });
+
+  it.each([
+    ['What is satsang?', 'what is satsang'],
+    ['What is bhakti?', 'What is bhakthi?'],
+    ['What does the Vachanamrut say about anger?', 'what does the vachanamrut say about anger'],
+    ['What is the meaning of maya in the Vachanamrut?', 'What is the meaning of maaya in the Vachanamrut?'],
+    ['What does Gadhada I-1 say?', 'what does gadhada i 1 say'],
+    ['ભક્તિ શું છે?', 'ભક્તિ શું છે'],
+  ])('matches the same question asked with different spelling or punctuation: %s / %s', (a, b) => {
+    expect(isMatch(a, b)).toBe(true);
+  });
+
+  it.each([
+    ['vachanamrut shu chhe', 'વચનામૃત શું છે'],
+    ['bhakti shu chhe?', 'ભક્તિ શું છે?'],
+    ['Bhagwan kon chhe?', 'ભગવાન કોણ છે?'],
+    ['moksh etle shu?', 'મોક્ષ એટલે શું?'],
+    ['dharma ane bhakti', 'ધર્મ અને ભક્તિ'],
+    ['bhakti kem karvi?', 'ભક્તિ કેમ કરવી?'],
+    ['satsang nu mahatmya', 'સત્સંગનું માહાત્મ્ય'],
+    ['Maharaj ni murti', 'મહારાજની મૂર્તિ'],
+    ['bhakti kya hai?', 'भक्ति क्या है?'],
+  ])('matches Latin-typed Gujarati and Hindi with the same question in script: %s / %s', (a, b) => {
+    expect(questionSimilarity(a, b)).toBe(1);
+  });
+
+  it.each([
+    ['bhakti shu chhe?', 'શક્તિ શું છે?'],
+    ['maya shu chhe?', 'મોક્ષ શું છે?'],
+    ['Gadhada 1 shu kahe chhe?', 'ગઢડા ૨ શું કહે છે?'],
+    ['Maharaj bhagwan chhe?', 'મહારાજ ભગવાન નથી?'],
+  ])('keeps different questions apart across scripts: %s / %s', (a, b) => {
+    expect(isMatch(a, b)).toBe(false);
+  });
+});
+
+describe('findSimilarEntry', () => {
+  const entry = (query: string, overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+    id: query,
+    query,
+    answer: `Answer to ${query}`,
+    timestamp: 1,
+    language: 'en-IN',
+    ttsParts: [],
+    ...overrides,
+  });
+
+  it('only reuses answers in the same language that were not flagged', () => {
+    const entries = [
+      entry('What is satsang?', { language: 'gu-IN' }),
+      entry('What is satsang', { id: 'flagged', rating: 'down' }),
+    ];
+    expect(findSimilarEntry(entries, 'what is satsang', 'en-IN')).toBeUndefined();
+  });
+
+  it('does not reuse the answer for a neighbouring discourse', () => {
+    const entries = [entry('What does Gadhada I-2 say?')];
+    expect(findSimilarEntry(entries, 'What does Gadhada I-1 say?', 'en-IN')).toBeUndefined();
+  });
+});
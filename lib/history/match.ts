@@ -0,0 +1,144 @@
+import { transliterate } from '@/lib/transliterate';
+import { isFlaggedEntry } from './store';
+import type { HistoryEntry } from './store';
+
+// Case, punctuation and whitespace differences don't make a question new
+export const normalizeQuestion = (question: string) =>
+  question.normalize('NFC').toLowerCase().replace(/[\s\p{P}]+/gu, ' ').trim();
+
+// Phonetic spellings that romanized Gujarati uses interchangeably
+const FOLDS: Array<[RegExp, string]> = [
+  [/aa/g, 'a'], [/[ie]e/g, 'i'], [/ii/g, 'i'], [/oo/g, 'u'], [/uu/g, 'u'],
+  [/w/g, 'v'], [/z/g, 'j'], [/q/g, 'k'], [/c(?!h)/g, 'k'], [/ph/g, 'f'],
+  // Aspiration is rarely written consistently ("chhe", "che")
+  [/([kgcjtdpbs])h+/g, '$1'],
+  // "sambandh" and "sanbandh" are the same anusvara
+  [/m(?=[pb])/g, 'n'],
+  // Short and long "a" are seldom told apart, and the inherent vowel is
+  // dropped in speech but not always in spelling ("karvi" and "karavi",
+  // "dharma" and "dharm"), so only a word's first "a" is kept
+  [/\Ba/g, ''],
+  [/(.)\1+/g, '$1'],
+];
+
+// Script- and spelling-insensitive form of a question, for fuzzy matching
+export const foldQuestion = (question: string) => {
+  let folded = transliterate(normalizeQuestion(question));
+  for (const [pattern, replacement] of FOLDS) folded = folded.replace(pattern, replacement);
+  return folded;
+};
+
+// Digits in any script the app listens in, as ASCII
+const NATIVE_DIGIT_ZEROS = [0x0ae6, 0x0966];
+const toAsciiDigits = (text: string) =>
+  text.replace(/[\u0ae6-\u0aef\u0966-\u096f]/g, (digit) => {
+    const code = digit.charCodeAt(0);
+    const zero = NATIVE_DIGIT_ZEROS.find(start => code >= start && code <= start + 9) ?? code;
+    return String(code - zero);
+  });
+
+// Numbers and discourse ids ("Gadhada II-12", "Sarangpur 5") mentioned in a
+// question. Any difference makes it a different question, however similar the
+// wording. Taken before folding, which would merge "ii" into "i".
+const numberSignature = (question: string) =>
+  (toAsciiDigits(normalizeQuestion(question)).match(/\b(?:(?:i{1,3}|iv|v) )?\d+/g) ?? [])
+    .sort()
+    .join(',');
+
+// Words that flip a question's meaning in English, Gujarati, Hindi and
+// romanized Gujarati/Hindi. Genitives such as "na"/"ના" are left out.
+const NEGATION_PATTERN = /(?<![\p{L}\p{M}])(?:not|no|never|nor|none|nothing|cannot|without|nathi|nahi|nahin|નથી|નહીં|નહિ|नहीं|नही|न|मत)(?![\p{L}\p{M}])|n['’]t\b/gu;
+
+const negationCount = (question: string) =>
+  (question.normalize('NFC').toLowerCase().match(NEGATION_PATTERN) ?? []).length;
+
+const bigrams = (word: string) => {
+  const counts = new Map<string, number>();
+  const padded = ` ${word} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Dice coefficient over character bigrams of two words, 0 to 1
+const wordSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let shared = 0;
+  gramsA.forEach((count, gram) => {
+    shared += Math.min(count, gramsB.get(gram) ?? 0);
+  });
+  return (2 * shared) / (a.length + 1 + b.length + 1);
+};
+
+// Words this alike are taken as spelling variants of each other; "anger" and
+// "ego" or "bhakti" and "shakti" stay apart
+const WORD_MATCH_THRESHOLD = 0.75;
+
+// Similarity of two folded questions, 0 to 1: words are paired with their
+// closest spelling variant and each pair counts by its length, so a different
+// key word weighs more than a different "the" or "is". Words left without a
+// pair count twice, so one different key word keeps even a long question apart.
+const wordOverlap = (a: string[], b: string[]) => {
+  const pairs: Array<{ i: number; j: number; score: number }> = [];
+  a.forEach((wordA, i) => b.forEach((wordB, j) => {
+    const score = wordSimilarity(wordA, wordB);
+    if (score >= WORD_MATCH_THRESHOLD) pairs.push({ i, j, score });
+  }));
+  pairs.sort((x, y) => y.score - x.score);
+
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  let shared = 0;
+  for (const { i, j, score } of pairs) {
+    if (usedA.has(i) || usedB.has(j)) continue;
+    usedA.add(i);
+    usedB.add(j);
+    shared += score * (a[i].length + b[j].length);
+  }
+  const length = (words: string[], used: Set<number>) =>
+    words.reduce((sum, word, i) => sum + word.length * (used.has(i) ? 1 : 2), 0);
+  const total = length(a, usedA) + length(b, usedB);
+  return total === 0 ? 0 : shared / total;
+};
+
+// 0 to 1, where 1 means the same question. Questions that mention different
+// numbers or discourses, or where only one is negated, score 0.
+export const questionSimilarity = (a: string, b: string) => {
+  if (numberSignature(a) !== numberSignature(b) || negationCount(a) !== negationCount(b)) return 0;
+  const foldedA = foldQuestion(a);
+  const foldedB = foldQuestion(b);
+  // Postpositions are written joined or apart ("satsang nu", "સત્સંગનું")
+  if (foldedA.replace(/ /g, '') === foldedB.replace(/ /g, '')) return 1;
+  return wordOverlap(foldedA.split(' ').filter(Boolean), foldedB.split(' ').filter(Boolean));
+};
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+
+export interface SimilarEntry {
+  entry: HistoryEntry;
+  similarity: number;
+}
+
+// Most similar saved answer in the same language at or above `threshold`;
+// ties go to the most recent one. Flagged answers are skipped.
+export const findSimilarEntry = (
+  entries: HistoryEntry[],
+  query: string,
+  language: string,
+  threshold = DEFAULT_SIMILARITY_THRESHOLD,
+): SimilarEntry | undefined => {
+  let best: SimilarEntry | undefined;
+  for (const entry of entries) {
+    if (entry.language !== language || isFlaggedEntry(entry)) continue;
+    const similarity = questionSimilarity(query, entry.query);
+    if (similarity < threshold) continue;
+    if (!best || similarity > best.similarity || (similarity === best.similarity && entry.timestamp > best.entry.timestamp)) {
+      best = { entry, similarity };
+    }
+  }
+  return best;
+};
@@ -0,0 +1,122 @@
+import type { Citation, FeedbackRating, TtsPart } from '@/lib/api';
+import { getLanguage } from '@/lib/language';
+import { isSameSpeechVoice } from '@/lib/voice';
+import type { SpeechVoice } from '@/lib/voice';
+
+// Conversation history persisted in IndexedDB so questions, answers and their
+// synthesized audio survive a reload.
+
+export interface HistoryEntry {
+  id: string;
+  query: string;
+  answer: string;
+  timestamp: number;
+  // BCP 47 language tag of the question, e.g. 'gu-IN'
+  language: string;
+  // Synthesized audio in playback order; empty until TTS has finished
+  ttsParts: TtsPart[];
+  // Voice and speaking style of ttsParts
+  voice?: string;
+  style?: string;
+  // Missing on entries saved before answers carried citations
+  citations?: Citation[];
+  // Whether the backend served the answer from its cache
+  fromCache?: boolean;
+  // The listener's thumbs up/down, and whether they reported it as inaccurate
+  rating?: FeedbackRating;
+  reported?: boolean;
+}
+
+// Answers the listener flagged are never reused from the local cache
+export const isFlaggedEntry = (entry: HistoryEntry) => entry.rating === 'down' || !!entry.reported;
+
+// Whether the saved audio can be replayed in the listener's current voice.
+// Entries saved before voices were configurable used the language's default.
+export const hasAudioInVoice = (entry: HistoryEntry, speech: SpeechVoice) =>
+  entry.ttsParts.length > 0 &&
+  isSameSpeechVoice({ voice: entry.voice ?? getLanguage(entry.language).voice, style: entry.style }, speech);
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'vachanamrut-companion';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+export const isHistoryStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('History database is open in another tab with an older version'));
+    }).catch((err) => {
+      // Allow a later call to retry instead of caching the failure
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, mode);
+  const result = promisify(run(tx.objectStore(STORE)));
+  await transactionDone(tx);
+  return result;
+};
+
+export const createHistoryId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Oldest first, matching the order questions were asked
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  const entries = await promisify(tx.objectStore(STORE).index('timestamp').getAll() as IDBRequest<HistoryEntry[]>);
+  return entries;
+};
+
+export const putHistoryEntry = (entry: HistoryEntry) =>
+  withStore('readwrite', store => store.put(entry)).then(() => undefined);
+
+export const deleteHistoryEntry = (id: string) =>
+  withStore('readwrite', store => store.delete(id));
+
+export const clearHistory = () =>
+  withStore('readwrite', store => store.clear());
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
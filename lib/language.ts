@@ -0,0 +1,22 @@
+// Languages the companion can listen and answer in. `code` is the BCP 47 tag
+// used for speech recognition and sent to the backend as the preferred answer
+// language; `voice` is the Gemini prebuilt TTS voice that suits it best.
+
+export interface LanguageOption {
+  code: string;
+  label: string;
+  // English name, used in prompts and logs
+  name: string;
+  voice: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'gu-IN', label: 'ગુજરાતી', name: 'Gujarati', voice: 'Puck' },
+  { code: 'en-IN', label: 'English', name: 'English', voice: 'Kore' },
+  { code: 'hi-IN', label: 'हिन्दी', name: 'Hindi', voice: 'Charon' },
+];
+
+export const DEFAULT_LANGUAGE = LANGUAGES[0];
+
+export const getLanguage = (code: string): LanguageOption =>
+  LANGUAGES.find(language => language.code === code) ?? DEFAULT_LANGUAGE;
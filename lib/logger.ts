@@ -0,0 +1,112 @@
+// Small leveled logger for the browser. Every entry goes to an in-memory ring
+// buffer the debug panel shows, so a listener can copy the recent log into a
+// support request. Until debug logging is switched on, debug entries are
+// dropped, info only reaches the console in development, and what the
+// listener said or heard is replaced by its length.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogScope = 'app' | 'recognition' | 'api' | 'tts' | 'playback' | 'history' | 'bulk';
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  scope: LogScope;
+  message: string;
+  // JSON-safe details; errors are reduced to their name and message
+  data?: Record<string, unknown>;
+}
+
+const MAX_ENTRIES = 300;
+
+// Detail keys holding questions, answers or transcripts
+const CONTENT_KEYS = new Set(['question', 'answer', 'query', 'text', 'transcript']);
+
+let debugEnabled = false;
+let entries: readonly LogEntry[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const isDebugEnabled = () => debugEnabled;
+
+export const setDebugEnabled = (enabled: boolean) => {
+  if (enabled === debugEnabled) return;
+  debugEnabled = enabled;
+  notify();
+};
+
+// Newest last. The array is replaced on every change, so it can be compared
+// by identity (useSyncExternalStore relies on that).
+export const getLogEntries = () => entries;
+
+export const subscribeToLog = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const clearLog = () => {
+  entries = [];
+  notify();
+};
+
+const describeError = (err: Error) => ({ name: err.name, message: err.message });
+
+// Details are a record of named values, or just the error that happened
+const toData = (detail: unknown): Record<string, unknown> | undefined => {
+  if (detail === undefined) return undefined;
+  if (detail instanceof Error) return { error: describeError(detail) };
+  if (typeof detail !== 'object' || detail === null || Array.isArray(detail)) return { value: detail };
+  return Object.fromEntries(Object.entries(detail).map(([key, value]) => {
+    if (value instanceof Error) return [key, describeError(value)];
+    if (!debugEnabled && CONTENT_KEYS.has(key) && typeof value === 'string') return [key, `[${value.length} characters]`];
+    return [key, value];
+  }));
+};
+
+const shouldPrint = (level: LogLevel) =>
+  debugEnabled || level === 'warn' || level === 'error' || (level === 'info' && process.env.NODE_ENV === 'development');
+
+const write = (level: LogLevel, scope: LogScope, message: string, detail?: unknown) => {
+  if (level === 'debug' && !debugEnabled) return;
+  const data = toData(detail);
+  const entry: LogEntry = { id: nextId++, timestamp: Date.now(), level, scope, message, data };
+  entries = [...entries.slice(-(MAX_ENTRIES - 1)), entry];
+  notify();
+
+  if (shouldPrint(level)) {
+    const print = level === 'debug' ? console.debug : console[level];
+    // The console gets the original error so its stack stays clickable
+    const consoleDetail = detail instanceof Error ? detail : data;
+    if (consoleDetail === undefined) print(`[${scope}] ${message}`);
+    else print(`[${scope}] ${message}`, consoleDetail);
+  }
+};
+
+export const createLogger = (scope: LogScope) => ({
+  debug: (message: string, detail?: unknown) => write('debug', scope, message, detail),
+  info: (message: string, detail?: unknown) => write('info', scope, message, detail),
+  warn: (message: string, detail?: unknown) => write('warn', scope, message, detail),
+  error: (message: string, detail?: unknown) => write('error', scope, message, detail),
+});
+
+export type Logger = ReturnType<typeof createLogger>;
+
+export const formatLogData = (data: Record<string, unknown>) => {
+  try {
+    return JSON.stringify(data);
+  } catch {
+    return '[unserializable]';
+  }
+};
+
+// Plain-text log for pasting into a support request
+export const formatLogEntries = (list: readonly LogEntry[]) =>
+  list
+    .map(({ timestamp, level, scope, message, data }) =>
+      `${new Date(timestamp).toISOString()} ${level.toUpperCase().padEnd(5)} [${scope}] ${message}${data ? ` ${formatLogData(data)}` : ''}`)
+    .join('\n');
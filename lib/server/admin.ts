@@ -0,0 +1,20 @@
+import { timingSafeEqual } from 'node:crypto';
+import { ApiError } from './errors';
+
+// Admin routes are closed unless ADMIN_TOKEN is set, and then require it as a
+// bearer token: Authorization: Bearer <ADMIN_TOKEN>
+
+export const requireAdmin = (request: Request) => {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    throw new ApiError(503, 'Admin access is not configured. Set ADMIN_TOKEN on the server.');
+  }
+  const header = request.headers.get('Authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  // Compare in constant time so the token can't be guessed byte by byte
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    throw new ApiError(401, 'Admin token is missing or wrong');
+  }
+};
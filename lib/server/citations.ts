@@ -0,0 +1,82 @@
+import type { Citation } from '@/lib/api/types';
+
+// The model writes its answer, then this marker on its own line, then a JSON
+// array of citations. Everything before the marker is the spoken answer.
+export const CITATION_MARKER = '<<<CITATIONS>>>';
+
+export const CITATION_INSTRUCTIONS = `After the answer, write a line containing only ${CITATION_MARKER} followed by a JSON array of the Vachanamrut discourses the answer draws on, for example:
+${CITATION_MARKER}
+[{"id": "Gadhada I-1", "title": "Continuous Remembrance of God", "location": "Gadhada", "passage": "the exact sentence or two you relied on"}]
+Quote passages word for word and only cite discourses you are sure of. Write [] if the answer cites none.`;
+
+const MAX_CITATIONS = 8;
+
+const cleanString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Drops malformed or duplicate entries rather than failing the whole answer
+export const parseCitations = (raw: string): Citation[] => {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    console.warn('Citations: could not parse citation block');
+    return [];
+  }
+  if (!Array.isArray(value)) return [];
+
+  const seen = new Set<string>();
+  const citations: Citation[] = [];
+  for (const item of value) {
+    const fields = (item ?? {}) as Record<string, unknown>;
+    const id = cleanString(fields.id);
+    if (!id || seen.has(id.toLowerCase())) continue;
+    seen.add(id.toLowerCase());
+    citations.push({
+      id,
+      title: cleanString(fields.title),
+      location: cleanString(fields.location),
+      passage: cleanString(fields.passage),
+    });
+  }
+  return citations.slice(0, MAX_CITATIONS);
+};
+
+// Splits a complete model reply into the answer text and its citations
+export const splitCitations = (text: string): { answer: string; citations: Citation[] } => {
+  const at = text.indexOf(CITATION_MARKER);
+  if (at === -1) return { answer: text.trim(), citations: [] };
+  return {
+    answer: text.slice(0, at).trim(),
+    citations: parseCitations(text.slice(at + CITATION_MARKER.length)),
+  };
+};
+
+// Wraps a streaming onDelta so text from the marker onwards is never shown.
+// A fragment that could be the start of the marker is held back until the
+// next one shows whether it is.
+export const createAnswerDeltaFilter = (onDelta: (text: string) => void) => {
+  let pending = '';
+  let stopped = false;
+
+  return (text: string) => {
+    if (stopped) return;
+    pending += text;
+
+    const at = pending.indexOf(CITATION_MARKER);
+    if (at !== -1) {
+      stopped = true;
+      if (at > 0) onDelta(pending.slice(0, at));
+      pending = '';
+      return;
+    }
+
+    // Longest suffix of `pending` that is a prefix of the marker
+    let keep = Math.min(pending.length, CITATION_MARKER.length - 1);
+    while (keep > 0 && !CITATION_MARKER.startsWith(pending.slice(-keep))) keep--;
+    const ready = pending.slice(0, pending.length - keep);
+    pending = pending.slice(pending.length - keep);
+    if (ready) onDelta(ready);
+  };
+};
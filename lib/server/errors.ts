@@ -0,0 +1,39 @@
+// Errors raised by the API routes. `status` becomes the HTTP status and
+// `message` is safe to show to users; anything else is reported as a 500.
+
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// The request body is missing fields or has the wrong shape
+export class BadRequestError extends ApiError {
+  constructor(message: string) {
+    super(400, message);
+    this.name = 'BadRequestError';
+  }
+}
+
+// The upstream AI provider failed or returned something unusable
+export class ProviderError extends ApiError {
+  constructor(message: string, status = 502) {
+    super(status, message);
+    this.name = 'ProviderError';
+  }
+}
+
+// The caller exceeded a rate limit or daily quota; sent with Retry-After
+export class RateLimitError extends ApiError {
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(429, message);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = Math.max(1, Math.ceil(retryAfterSeconds));
+  }
+}
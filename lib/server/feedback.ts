@@ -0,0 +1,26 @@
+import type { FeedbackRequest } from '@/lib/api/types';
+
+// Listener feedback, logged and kept in server memory (the newest 1000). Like
+// the answer cache it lives on globalThis and does not survive restarts.
+
+export interface FeedbackRecord extends FeedbackRequest {
+  id: string;
+  receivedAt: number;
+  // Whether the cached answer was dropped because of this feedback
+  invalidated: boolean;
+}
+
+const MAX_RECORDS = 1000;
+
+const globalStore = globalThis as typeof globalThis & { __feedback?: FeedbackRecord[] };
+const records = (globalStore.__feedback ??= []);
+
+export const recordFeedback = (feedback: FeedbackRequest, invalidated: boolean): FeedbackRecord => {
+  const record: FeedbackRecord = { ...feedback, id: crypto.randomUUID(), receivedAt: Date.now(), invalidated };
+  records.push(record);
+  if (records.length > MAX_RECORDS) records.splice(0, records.length - MAX_RECORDS);
+  return record;
+};
+
+// Negative feedback is anything a reviewer should look at
+export const isNegativeFeedback = (feedback: FeedbackRequest) => feedback.rating === 'down' || !!feedback.report;
@@ -0,0 +1,177 @@
+import { MAX_AUDIO_PARTS } from '@/lib/api/limits';
+import type { CachedAnswerSummary, Citation, TtsPart } from '@/lib/api/types';
+import type { SpeechVoice } from '@/lib/voice';
+import { normalizeQuestion } from '@/lib/history/match';
+
+// Answers and their synthesized audio kept in server memory, so a repeated
+// question is answered instantly with its saved speech. Lives on globalThis
+// so dev-server hot reloads don't drop it; it does not survive restarts.
+
+export interface CachedAnswer {
+  id: string;
+  question: string;
+  answer: string;
+  citations: Citation[];
+  language?: string;
+  // Audio parts by chunk index; gaps mean a chunk was never saved
+  ttsParts: TtsPart[];
+  // Chunk count reported by the client, when known
+  partCount?: number;
+  // Voice and style the saved audio was synthesized with (see speechKey)
+  speechKey?: string;
+  timestamp: number;
+  // Curated by an admin: never evicted, replaced by generated answers or
+  // dropped by listener feedback
+  pinned?: boolean;
+  // When an admin last edited the answer
+  editedAt?: number;
+}
+
+const MAX_ENTRIES = 500;
+
+const globalStore = globalThis as typeof globalThis & { __answerCache?: Map<string, CachedAnswer> };
+const entries = (globalStore.__answerCache ??= new Map<string, CachedAnswer>());
+
+const cacheKey = (question: string, language?: string) => `${language ?? ''}|${normalizeQuestion(question)}`;
+
+// Audio is only replayed to a listener who asked for the same voice and style
+const speechKey = ({ voice, style }: Partial<SpeechVoice>) => `${voice ?? ''}|${style ?? ''}`;
+
+export const getCachedAnswer = (question: string, language?: string): CachedAnswer | undefined =>
+  entries.get(cacheKey(question, language));
+
+// Maps iterate in insertion order, so the first unpinned key is the oldest
+// answer that may go
+const evictOldest = () => {
+  if (entries.size <= MAX_ENTRIES) return;
+  for (const [key, entry] of entries) {
+    if (!entry.pinned) {
+      entries.delete(key);
+      return;
+    }
+  }
+};
+
+export const saveAnswer = (question: string, answer: string, citations: Citation[], language?: string) => {
+  const key = cacheKey(question, language);
+  if (entries.get(key)?.pinned) return;
+  entries.delete(key);
+  entries.set(key, { id: crypto.randomUUID(), question, answer, citations, language, ttsParts: [], timestamp: Date.now() });
+  evictOldest();
+};
+
+// Stores one chunk of an answer's audio. Audio for an answer the cache no
+// longer holds (or that changed since) is ignored. One voice is kept per
+// answer: a chunk in another voice or style, or from a different chunking,
+// starts its audio over.
+export const saveAnswerAudio = (
+  { question, answer, language }: Pick<CachedAnswer, 'question' | 'answer' | 'language'>,
+  speech: Partial<SpeechVoice>,
+  index: number,
+  part: TtsPart,
+  partCount: number,
+) => {
+  // The route validates these too; an index past the end would make ttsParts
+  // a huge sparse array
+  if (index < 0 || index >= partCount || partCount > MAX_AUDIO_PARTS) return false;
+  const entry = entries.get(cacheKey(question, language));
+  if (!entry || entry.answer !== answer) return false;
+  const key = speechKey(speech);
+  if (entry.speechKey !== key || entry.partCount !== partCount) {
+    entry.speechKey = key;
+    entry.ttsParts = [];
+    entry.partCount = partCount;
+  }
+  entry.ttsParts[index] = part;
+  return true;
+};
+
+// Audio is only replayed when every chunk is present, in order, and (when
+// `speech` is given) in the requested voice and style
+export const completeTtsParts = (entry: CachedAnswer, speech?: Partial<SpeechVoice>): TtsPart[] => {
+  if (speech && speechKey(speech) !== entry.speechKey) return [];
+  const parts = Array.from(entry.ttsParts);
+  if (entry.partCount && parts.length !== entry.partCount) return [];
+  return parts.length > 0 && parts.every(Boolean) ? parts : [];
+};
+
+// Drops a cached answer so the next identical question is answered afresh.
+// Only the exact answer that was flagged is dropped; a newer one is kept.
+export const invalidateAnswer = (question: string, answer: string, language?: string) => {
+  const key = cacheKey(question, language);
+  const entry = entries.get(key);
+  if (!entry || entry.answer !== answer || entry.pinned) return false;
+  entries.delete(key);
+  return true;
+};
+
+// Admin access by entry id. Newest first.
+export const listCachedAnswers = (search?: string): CachedAnswer[] => {
+  const needle = search?.trim().toLocaleLowerCase();
+  const all = [...entries.values()].reverse();
+  if (!needle) return all;
+  return all.filter(entry =>
+    entry.question.toLocaleLowerCase().includes(needle) || entry.answer.toLocaleLowerCase().includes(needle));
+};
+
+export const summarizeCachedAnswer = (entry: CachedAnswer): CachedAnswerSummary => ({
+  id: entry.id,
+  question: entry.question,
+  answer: entry.answer,
+  language: entry.language,
+  citations: entry.citations,
+  audioParts: entry.ttsParts.filter(Boolean).length,
+  audioComplete: completeTtsParts(entry).length > 0,
+  pinned: !!entry.pinned,
+  timestamp: entry.timestamp,
+  editedAt: entry.editedAt,
+});
+
+export const findCachedAnswer = (id: string): CachedAnswer | undefined =>
+  [...entries.values()].find(entry => entry.id === id);
+
+// Replaces an answer's text. Its audio no longer matches, so it is dropped
+// and synthesized again the next time the answer is played.
+export const updateCachedAnswer = (
+  id: string,
+  { answer, citations, pinned }: { answer?: string; citations?: Citation[]; pinned?: boolean },
+): CachedAnswer | undefined => {
+  const entry = findCachedAnswer(id);
+  if (!entry) return undefined;
+  if (answer !== undefined && answer !== entry.answer) {
+    entry.answer = answer;
+    entry.ttsParts = [];
+    entry.partCount = undefined;
+    entry.speechKey = undefined;
+    entry.editedAt = Date.now();
+  }
+  if (citations) entry.citations = citations;
+  if (pinned !== undefined) entry.pinned = pinned;
+  return entry;
+};
+
+export const deleteCachedAnswer = (id: string) => {
+  const entry = findCachedAnswer(id);
+  return entry ? entries.delete(cacheKey(entry.question, entry.language)) : false;
+};
+
+// Stores a curated answer for a frequently asked question, replacing any
+// generated one
+export const pinAnswer = (question: string, answer: string, citations: Citation[], language?: string): CachedAnswer => {
+  const key = cacheKey(question, language);
+  const now = Date.now();
+  const entry: CachedAnswer = {
+    id: crypto.randomUUID(),
+    question,
+    answer,
+    citations,
+    language,
+    ttsParts: [],
+    timestamp: now,
+    pinned: true,
+  };
+  entries.delete(key);
+  entries.set(key, entry);
+  evictOldest();
+  return entry;
+};
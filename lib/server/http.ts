@@ -0,0 +1,52 @@
+import type { BackendErrorBody } from '@/lib/api/types';
+import { ApiError, BadRequestError, RateLimitError } from './errors';
+
+export interface ReadBodyOptions {
+  // Larger bodies are refused with 413 before they are parsed
+  maxBytes?: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1_000_000;
+
+export const readJsonBody = async (
+  request: Request,
+  { maxBytes = DEFAULT_MAX_BODY_BYTES }: ReadBodyOptions = {},
+): Promise<Record<string, unknown>> => {
+  const tooLarge = () => new ApiError(413, `Request body is too large (at most ${maxBytes} bytes allowed)`);
+  if (Number(request.headers.get('content-length')) > maxBytes) throw tooLarge();
+  let text: string;
+  try {
+    text = await request.text();
+  } catch {
+    throw new BadRequestError('Request body could not be read');
+  }
+  // Content-Length is optional (chunked uploads), so check what arrived too
+  if (Buffer.byteLength(text) > maxBytes) throw tooLarge();
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new BadRequestError('Request body must be valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new BadRequestError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+};
+
+// ApiError messages are written for users; anything else may carry provider
+// or internal details, so it is replaced with a generic message
+export const publicErrorMessage = (err: unknown) =>
+  err instanceof ApiError ? err.message : 'Something went wrong. Please try again.';
+
+// Turns any thrown value into the { error } body the frontend expects,
+// without leaking internal details of unexpected failures
+export const errorResponse = (err: unknown, scope: string) => {
+  if (err instanceof ApiError) {
+    if (err.status >= 500) console.error(`${scope}:`, err.message);
+    const headers = err instanceof RateLimitError ? { 'Retry-After': String(err.retryAfterSeconds) } : undefined;
+    return Response.json({ error: err.message } satisfies BackendErrorBody, { status: err.status, headers });
+  }
+  console.error(`${scope}: unexpected error`, err);
+  return Response.json({ error: publicErrorMessage(err) } satisfies BackendErrorBody, { status: 500 });
+};
@@ -0,0 +1,110 @@
+import type { MetricEvent, MetricsBucket, MetricsSummary, StageSummary, TokenUsage } from '@/lib/api/types';
+
+// Stage timings from the API routes and from browsers, kept in server memory
+// for the admin dashboard. Like the answer cache it lives on globalThis and
+// does not survive restarts; the oldest events go first once it is full.
+
+const MAX_EVENTS = 20_000;
+
+const globalStore = globalThis as typeof globalThis & { __metrics?: MetricEvent[] };
+const events = (globalStore.__metrics ??= []);
+
+export const recordMetric = (event: Omit<MetricEvent, 'timestamp'> & { timestamp?: number }) => {
+  events.push({ ...event, timestamp: event.timestamp ?? Date.now() });
+  if (events.length > MAX_EVENTS) events.splice(0, events.length - MAX_EVENTS);
+};
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+// Cache hits take next to no time; counting them would hide how long real
+// answers take, and the hit rate is reported separately
+const sortedDurations = (list: MetricEvent[]) =>
+  list.filter(event => event.ok && !event.fromCache).map(event => event.durationMs).sort((a, b) => a - b);
+
+const addTokens = (total: TokenUsage, tokens?: TokenUsage) => {
+  if (!tokens) return;
+  total.promptTokens += tokens.promptTokens;
+  total.outputTokens += tokens.outputTokens;
+  total.totalTokens += tokens.totalTokens;
+};
+
+// Server-side answers are the ground truth for cache hits; browsers also
+// answer from their own cache without asking the server
+const isServerAnswer = (event: MetricEvent) => event.stage === 'gemini' && event.source === 'server' && event.ok;
+
+export const summarizeMetrics = ({ windowMs, bucketMs, now = Date.now() }: {
+  windowMs: number;
+  bucketMs: number;
+  now?: number;
+}): MetricsSummary => {
+  const from = now - windowMs;
+  const recent = events.filter(event => event.timestamp >= from && event.timestamp <= now);
+
+  const groups = new Map<string, MetricEvent[]>();
+  recent.forEach((event) => {
+    const key = `${event.source}|${event.stage}`;
+    const list = groups.get(key);
+    if (list) list.push(event);
+    else groups.set(key, [event]);
+  });
+  const stages: StageSummary[] = [...groups.values()].map((list) => {
+    const durations = sortedDurations(list);
+    return {
+      stage: list[0].stage,
+      source: list[0].source,
+      count: list.length,
+      errors: list.filter(event => !event.ok).length,
+      p50Ms: percentile(durations, 50),
+      p95Ms: percentile(durations, 95),
+    };
+  }).sort((a, b) => a.source.localeCompare(b.source) || a.stage.localeCompare(b.stage));
+
+  const answers = recent.filter(isServerAnswer);
+  const tokens: TokenUsage = { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+  recent.forEach(event => addTokens(tokens, event.tokens));
+
+  const errorCounts = new Map<string, MetricsSummary['errors'][number]>();
+  recent.filter(event => !event.ok).forEach((event) => {
+    const error = event.error ?? 'Unknown';
+    const key = `${event.source}|${event.stage}|${error}`;
+    const entry = errorCounts.get(key) ?? { stage: event.stage, source: event.source, error, count: 0 };
+    entry.count++;
+    errorCounts.set(key, entry);
+  });
+
+  const bucketCount = Math.ceil(windowMs / bucketMs);
+  const firstStart = now - bucketCount * bucketMs;
+  const timeline: MetricsBucket[] = Array.from({ length: bucketCount }, (_, i) => {
+    const start = firstStart + i * bucketMs;
+    const inBucket = recent.filter(event => event.timestamp >= start && event.timestamp < start + bucketMs);
+    // Requests are what the server handled; browser timings describe the
+    // same requests and would count them twice
+    const handled = inBucket.filter(event => event.source === 'server');
+    const bucketTokens: TokenUsage = { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+    handled.forEach(event => addTokens(bucketTokens, event.tokens));
+    return {
+      start,
+      requests: handled.length,
+      errors: inBucket.filter(event => !event.ok).length,
+      cacheHits: handled.filter(event => isServerAnswer(event) && event.fromCache).length,
+      geminiP95Ms: percentile(sortedDurations(handled.filter(isServerAnswer)), 95),
+      tokens: bucketTokens.totalTokens,
+    };
+  });
+
+  return {
+    from,
+    to: now,
+    bucketMs,
+    stages,
+    cacheHitRate: answers.length > 0 ? answers.filter(event => event.fromCache).length / answers.length : null,
+    tokens,
+    errors: [...errorCounts.values()].sort((a, b) => b.count - a.count),
+    timeline,
+  };
+};
@@ -0,0 +1,89 @@
+import type { Citation } from '@/lib/api/types';
+import { VOICES } from '@/lib/voice';
+import type { AiProvider, AnswerOptions, AnswerRequest, ProviderCallOptions, SpeechRequest } from './types';
+
+const SAMPLE_RATE = 24000;
+
+export interface FakeProviderOptions {
+  // Simulated latency before answering and between streamed words
+  latencyMs?: number;
+  wordDelayMs?: number;
+}
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+export const fakeAnswer = (question: string, previousTurns = 0) =>
+  `This is a sample answer to "${question}"` +
+  (previousTurns > 0 ? `, following up on ${previousTurns} earlier question${previousTurns === 1 ? '' : 's'}` : '') +
+  '. The Vachanamrut is a collection of 273 spiritual discourses ' +
+  'delivered by Bhagwan Swaminarayan between 1819 and 1829. ' +
+  'વચનામૃત ભગવાન સ્વામિનારાયણના ઉપદેશોનો સંગ્રહ છે. ' +
+  'It teaches dharma, gnan, vairagya and bhakti as the path to moksha.';
+
+const FAKE_CITATIONS: Citation[] = [
+  {
+    id: 'Gadhada I-1',
+    title: 'Sample discourse',
+    location: 'Gadhada',
+    passage: 'Placeholder passage from the fake provider; it is not a quotation from the Vachanamrut.',
+  },
+];
+
+// Roughly a token per word, so the metrics dashboard has something to show
+const estimateUsage = (prompt: string, output: string) => {
+  const promptTokens = prompt.split(/\s+/).length;
+  const outputTokens = output.split(/\s+/).length;
+  return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+};
+
+// Raw 16-bit PCM tone, the same shape the Gemini TTS model produces. Roughly a
+// quarter second per word, capped so it stays snappy; each voice gets its own pitch.
+const tone = (text: string, voice?: string) => {
+  const frequency = 220 + Math.max(0, VOICES.findIndex(option => option.name === voice)) * 10;
+  const seconds = Math.min(8, Math.max(1, text.split(/\s+/).length * 0.25));
+  const samples = Math.floor(SAMPLE_RATE * seconds);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const fade = Math.min(1, i / 2400, (samples - i) / 2400);
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 6000 * fade), i * 2);
+  }
+  return pcm;
+};
+
+// Deterministic provider that needs no API key: canned answers streamed word
+// by word and a sine tone for speech
+export const createFakeProvider = ({ latencyMs = 500, wordDelayMs = 60 }: FakeProviderOptions = {}): AiProvider => ({
+  name: 'fake',
+
+  async generateAnswer({ question, history = [] }: AnswerRequest, { signal, onDelta }: AnswerOptions = {}) {
+    const answer = fakeAnswer(question, history.length);
+    await delay(latencyMs, signal);
+    if (onDelta) {
+      for (const word of answer.match(/\S+\s*/g) ?? []) {
+        onDelta(word);
+        await delay(wordDelayMs, signal);
+      }
+    }
+    return { answer, citations: FAKE_CITATIONS, usage: estimateUsage(question, answer) };
+  },
+
+  async synthesizeSpeech({ text, voice }: SpeechRequest, { signal }: ProviderCallOptions = {}) {
+    await delay(latencyMs, signal);
+    return {
+      audio: tone(text, voice).toString('base64'),
+      mimeType: 'audio/wav',
+      originalMimeType: `audio/L16;codec=pcm;rate=${SAMPLE_RATE}`,
+    };
+  },
+});
@@ -0,0 +1,137 @@
+import { readStreamPayloads } from '@/lib/api/stream';
+import { createAnswerDeltaFilter, splitCitations } from '../citations';
+import { buildSystemPrompt } from '../prompt';
+import { ProviderError } from '../errors';
+import type { TokenUsage } from '@/lib/api/types';
+import type { AiProvider, AnswerOptions, AnswerRequest, ProviderCallOptions, SpeechRequest } from './types';
+
+const API_ROOT = 'https://generativelanguage.googleapis.com/v1beta/models';
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash-preview-05-20';
+const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const DEFAULT_VOICE = 'Puck';
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+}
+
+interface GenerateContentResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+  error?: { message?: string };
+}
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  textModel?: string;
+  ttsModel?: string;
+  fetchImpl?: typeof fetch;
+}
+
+// Joins the visible text of the first candidate, skipping thought summaries
+const candidateText = (body: GenerateContentResponse) =>
+  (body.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => !part.thought && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('');
+
+const readUsage = ({ usageMetadata }: GenerateContentResponse): TokenUsage | undefined => {
+  if (!usageMetadata) return undefined;
+  const promptTokens = usageMetadata.promptTokenCount ?? 0;
+  const outputTokens = usageMetadata.candidatesTokenCount ?? 0;
+  return { promptTokens, outputTokens, totalTokens: usageMetadata.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+export const createGeminiProvider = ({
+  apiKey,
+  textModel = DEFAULT_TEXT_MODEL,
+  ttsModel = DEFAULT_TTS_MODEL,
+  fetchImpl,
+}: GeminiProviderOptions): AiProvider => {
+  const doFetch: typeof fetch = (...args) => (fetchImpl ?? fetch)(...args);
+
+  const call = async (model: string, method: string, payload: unknown, signal?: AbortSignal) => {
+    const response = await doFetch(`${API_ROOT}/${model}:${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify(payload),
+      signal,
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => undefined) as GenerateContentResponse | undefined;
+      const detail = body?.error?.message ?? response.statusText;
+      // Let the client's retry logic see Gemini's rate limiting as such
+      throw new ProviderError(`Gemini ${method} failed: ${detail}`, response.status === 429 ? 429 : 502);
+    }
+    return response;
+  };
+
+  const answerPayload = ({ question, language, history = [] }: AnswerRequest) => ({
+    systemInstruction: { parts: [{ text: buildSystemPrompt(language) }] },
+    contents: [
+      ...history.flatMap(turn => [
+        { role: 'user', parts: [{ text: turn.question }] },
+        { role: 'model', parts: [{ text: turn.answer }] },
+      ]),
+      { role: 'user', parts: [{ text: question }] },
+    ],
+    generationConfig: { temperature: 0.7, maxOutputTokens: 2048, candidateCount: 1 },
+  });
+
+  const checkBlocked = (body: GenerateContentResponse) => {
+    if (body.promptFeedback?.blockReason) {
+      throw new ProviderError(`Gemini blocked the question (${body.promptFeedback.blockReason})`);
+    }
+  };
+
+  return {
+    name: 'gemini',
+
+    async generateAnswer(request: AnswerRequest, { signal, onDelta }: AnswerOptions = {}) {
+      let reply = '';
+      let usage: TokenUsage | undefined;
+      if (!onDelta) {
+        const response = await call(textModel, 'generateContent', answerPayload(request), signal);
+        const body = await response.json() as GenerateContentResponse;
+        checkBlocked(body);
+        reply = candidateText(body);
+        usage = readUsage(body);
+      } else {
+        const response = await call(textModel, 'streamGenerateContent?alt=sse', answerPayload(request), signal);
+        const forward = createAnswerDeltaFilter(onDelta);
+        for await (const payload of readStreamPayloads(response, 'sse')) {
+          const chunk = JSON.parse(payload) as GenerateContentResponse;
+          checkBlocked(chunk);
+          // Every chunk reports the running total; the last one is final
+          usage = readUsage(chunk) ?? usage;
+          const text = candidateText(chunk);
+          if (!text) continue;
+          reply += text;
+          forward(text);
+        }
+      }
+
+      const result = splitCitations(reply);
+      if (!result.answer) throw new ProviderError('Gemini returned an empty answer');
+      return { ...result, usage };
+    },
+
+    async synthesizeSpeech({ text, voice, style }: SpeechRequest, { signal }: ProviderCallOptions = {}) {
+      const response = await call(ttsModel, 'generateContent', {
+        // The TTS model takes its style direction as a prefix to the text
+        contents: [{ parts: [{ text: style ? `${style}: ${text}` : text }] }],
+        generationConfig: {
+          responseModalities: ['AUDIO'],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice ?? DEFAULT_VOICE } } },
+        },
+      }, signal);
+      const body = await response.json() as GenerateContentResponse;
+      const audio = body.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+      if (!audio?.data) throw new ProviderError('Gemini TTS returned no audio');
+      // The frontend wraps raw PCM in a WAV header before playing or saving it
+      return { audio: audio.data, mimeType: 'audio/wav', originalMimeType: audio.mimeType, usage: readUsage(body) };
+    },
+  };
+};
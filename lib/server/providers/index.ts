@@ -0,0 +1,40 @@
+import { ApiError } from '../errors';
+import { createFakeProvider } from './fake';
+import { createGeminiProvider } from './gemini';
+import type { AiProvider } from './types';
+
+export { createFakeProvider } from './fake';
+export { createGeminiProvider } from './gemini';
+export type * from './types';
+
+let override: AiProvider | null = null;
+let cached: AiProvider | null = null;
+
+// Replaces the provider used by the API routes, e.g. with a fake in tests.
+// Pass null to go back to the one chosen from the environment.
+export const setAiProvider = (provider: AiProvider | null) => {
+  override = provider;
+};
+
+// AI_PROVIDER=fake answers locally without a key; otherwise Gemini is used
+// with GOOGLE_AI_API_KEY
+export const getAiProvider = (): AiProvider => {
+  if (override) return override;
+  if (cached) return cached;
+
+  if (process.env.AI_PROVIDER === 'fake') {
+    cached = createFakeProvider();
+    return cached;
+  }
+
+  const apiKey = process.env.GOOGLE_AI_API_KEY;
+  if (!apiKey) {
+    throw new ApiError(503, 'The AI service is not configured. Set GOOGLE_AI_API_KEY, or AI_PROVIDER=fake for local testing.');
+  }
+  cached = createGeminiProvider({
+    apiKey,
+    textModel: process.env.GEMINI_MODEL || undefined,
+    ttsModel: process.env.GEMINI_TTS_MODEL || undefined,
+  });
+  return cached;
+};
@@ -0,0 +1,47 @@
+import type { Citation, ConversationTurn, TokenUsage, TtsPart } from '@/lib/api/types';
+
+export interface AnswerRequest {
+  question: string;
+  // BCP 47 tag of the preferred answer language
+  language?: string;
+  // Earlier turns of the conversation, oldest first
+  history?: ConversationTurn[];
+}
+
+export interface GeneratedAnswer {
+  answer: string;
+  citations: Citation[];
+  // Tokens billed for the call, when the provider reports them
+  usage?: TokenUsage;
+}
+
+export interface SpeechRequest {
+  text: string;
+  language?: string;
+  voice?: string;
+  // Instruction read before the text, e.g. 'Read this calmly'
+  style?: string;
+}
+
+export interface SynthesizedSpeech extends TtsPart {
+  usage?: TokenUsage;
+}
+
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+}
+
+export interface AnswerOptions extends ProviderCallOptions {
+  // Called with each new fragment of the answer text (never the citations)
+  // when the provider can stream
+  onDelta?: (text: string) => void;
+}
+
+// What the API routes need from an AI backend. The Gemini implementation
+// talks to Google; the fake one answers locally for tests and offline work.
+export interface AiProvider {
+  readonly name: string;
+  // Resolves with the complete answer, reporting fragments through onDelta
+  generateAnswer(request: AnswerRequest, options?: AnswerOptions): Promise<GeneratedAnswer>;
+  synthesizeSpeech(request: SpeechRequest, options?: ProviderCallOptions): Promise<SynthesizedSpeech>;
+}
@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getClientIp } from './index';
+
+const requestWith = (headers: Record<string, string>) => new Request('http://localhost/api/gemini', { headers });
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('ignores addresses the client put in front of the proxy one', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('skips the entries added by further trusted proxies', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2');
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+  });
+
+  it('uses X-Real-IP when no proxy is trusted', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '0');
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '1.1.1.1', 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '1.1.1.1' }))).toBe('unknown');
+  });
+});
@@ -0,0 +1,151 @@
+import { SESSION_ID_HEADER } from '@/lib/api/limits';
+import { RateLimitError } from '../errors';
+import { createMemoryStore } from './memory';
+import type { RateLimitStore, TokenBucket } from './types';
+
+export { createMemoryStore } from './memory';
+export { createRedisStore } from './redis';
+export type { RedisLikeClient, RedisStoreOptions } from './redis';
+export type * from './types';
+
+// Requests are limited per client IP and, when the browser sends a session id,
+// per session too: a token bucket smooths bursts and a daily quota caps the
+// total. Both apply to whichever is stricter. The session id is chosen by the
+// browser, so it only ever adds a limit: a new id never escapes the IP one.
+
+export type RateLimitScope = 'gemini' | 'tts' | 'audio' | 'metrics' | 'feedback';
+
+interface Limit {
+  bucket: TokenBucket;
+  dailyQuota: number;
+}
+
+interface ScopePolicy {
+  // Several listeners can share one IP (a household, a mandir's Wi-Fi), so the
+  // IP limits are looser than the per-session ones
+  ip: Limit;
+  session: Limit;
+  // Word for the thing being counted, used in error messages
+  noun: string;
+}
+
+const POLICIES: Record<RateLimitScope, ScopePolicy> = {
+  gemini: {
+    ip: { bucket: { capacity: 20, refillPerSecond: 30 / 60 }, dailyQuota: 500 },
+    session: { bucket: { capacity: 10, refillPerSecond: 20 / 60 }, dailyQuota: 300 },
+    noun: 'questions',
+  },
+  // One answer is read aloud in several chunks, each its own request
+  tts: {
+    ip: { bucket: { capacity: 40, refillPerSecond: 60 / 60 }, dailyQuota: 3000 },
+    session: { bucket: { capacity: 30, refillPerSecond: 40 / 60 }, dailyQuota: 2000 },
+    noun: 'spoken answers',
+  },
+  // Every synthesized chunk is saved once, so this follows the TTS limits
+  audio: {
+    ip: { bucket: { capacity: 40, refillPerSecond: 60 / 60 }, dailyQuota: 3000 },
+    session: { bucket: { capacity: 30, refillPerSecond: 40 / 60 }, dailyQuota: 2000 },
+    noun: 'saved audio chunks',
+  },
+  // Browsers batch their timings, so a few reports a minute is plenty
+  metrics: {
+    ip: { bucket: { capacity: 20, refillPerSecond: 20 / 60 }, dailyQuota: 5000 },
+    session: { bucket: { capacity: 10, refillPerSecond: 10 / 60 }, dailyQuota: 2000 },
+    noun: 'telemetry reports',
+  },
+  // Each answer gets a rating or a report now and then, never a stream of them
+  feedback: {
+    ip: { bucket: { capacity: 20, refillPerSecond: 20 / 60 }, dailyQuota: 500 },
+    session: { bucket: { capacity: 10, refillPerSecond: 10 / 60 }, dailyQuota: 200 },
+    noun: 'feedback reports',
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SESSION_ID_LENGTH = 100;
+
+let override: RateLimitStore | null = null;
+let cached: RateLimitStore | null = null;
+
+// Replaces the store, e.g. with createRedisStore(client) at startup when
+// several instances serve the app. Pass null to go back to the in-memory one.
+export const setRateLimitStore = (store: RateLimitStore | null) => {
+  override = store;
+};
+
+const getStore = (): RateLimitStore => {
+  if (override) return override;
+  const globalStore = globalThis as typeof globalThis & { __rateLimitStore?: RateLimitStore };
+  // Survive dev-server hot reloads like the answer cache does
+  cached ??= globalStore.__rateLimitStore ??= createMemoryStore();
+  return cached;
+};
+
+// Reverse proxies in front of the app that each append to X-Forwarded-For
+const getTrustedProxyCount = () => {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+  return Number.isInteger(count) && count >= 0 ? count : 1;
+};
+
+// The client can send any X-Forwarded-For it likes, so only the entries our
+// own proxies appended count: the client is the one the outermost of them
+// saw, `TRUSTED_PROXY_COUNT` from the right. With no proxies the header is
+// ignored and the platform's X-Real-IP is used instead.
+export const getClientIp = (request: Request): string => {
+  const proxies = getTrustedProxyCount();
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()) ?? [];
+  // Fewer entries than proxies means the request skipped one; take the leftmost
+  const client = proxies > 0 ? forwarded[Math.max(0, forwarded.length - proxies)] : undefined;
+  return client || request.headers.get('x-real-ip')?.trim() || 'unknown';
+};
+
+const getSessionId = (request: Request): string | undefined => {
+  const id = request.headers.get(SESSION_ID_HEADER)?.trim();
+  // Ignore anything that isn't a plausible id rather than keying on it
+  return id && id.length <= MAX_SESSION_ID_LENGTH && /^[\w-]+$/.test(id) ? id : undefined;
+};
+
+const formatWait = (seconds: number) => {
+  if (seconds < 90) return `${Math.ceil(seconds)} seconds`;
+  if (seconds < 90 * 60) return `${Math.ceil(seconds / 60)} minutes`;
+  return `${Math.round(seconds / 3600)} hours`;
+};
+
+// Throws a RateLimitError when the request is over any limit for its scope.
+// `cost` lets one request count as several.
+export const enforceRateLimit = async (request: Request, scope: RateLimitScope, cost = 1) => {
+  if (process.env.RATE_LIMIT === 'off') return;
+
+  const policy = POLICIES[scope];
+  const store = getStore();
+  const now = Date.now();
+  const sessionId = getSessionId(request);
+  const subjects: Array<{ key: string; limit: Limit }> = [
+    { key: `ip:${getClientIp(request)}`, limit: policy.ip },
+    ...(sessionId ? [{ key: `session:${sessionId}`, limit: policy.session }] : []),
+  ];
+
+  // Bursts are checked first so rejected requests don't eat into the quota
+  for (const { key, limit } of subjects) {
+    const { allowed, remaining } = await store.take(`bucket:${scope}:${key}`, limit.bucket, cost, now);
+    if (!allowed) {
+      const wait = (cost - remaining) / limit.bucket.refillPerSecond;
+      console.warn(`Rate limit: ${scope} requests too fast for ${key}`);
+      throw new RateLimitError(`Too many ${policy.noun} in a short time. Please wait ${formatWait(wait)} and try again.`, wait);
+    }
+  }
+
+  // Daily quotas reset at midnight UTC
+  const day = new Date(now).toISOString().slice(0, 10);
+  const secondsToMidnight = (DAY_MS - (now % DAY_MS)) / 1000;
+  for (const { key, limit } of subjects) {
+    const used = await store.increment(`quota:${scope}:${key}:${day}`, cost, DAY_MS);
+    if (used > limit.dailyQuota) {
+      console.warn(`Rate limit: daily ${scope} quota reached for ${key}`);
+      throw new RateLimitError(
+        `You have reached today's limit of ${limit.dailyQuota} ${policy.noun}. Please try again in ${formatWait(secondsToMidnight)}.`,
+        secondsToMidnight,
+      );
+    }
+  }
+};
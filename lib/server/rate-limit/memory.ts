@@ -0,0 +1,60 @@
+import type { RateLimitStore } from './types';
+
+// Keeps buckets and counters in this process. Fine for a single server and for
+// tests; instances behind a load balancer need a shared store (see redis.ts).
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface CounterState {
+  count: number;
+  expiresAt: number;
+}
+
+// Past this many keys, idle entries are swept on the next write
+const SWEEP_THRESHOLD = 10_000;
+
+export const createMemoryStore = (): RateLimitStore => {
+  const buckets = new Map<string, BucketState>();
+  const counters = new Map<string, CounterState>();
+
+  const sweep = (now: number) => {
+    if (counters.size > SWEEP_THRESHOLD) {
+      counters.forEach((counter, key) => {
+        if (counter.expiresAt <= now) counters.delete(key);
+      });
+    }
+    // A bucket idle for an hour has long since refilled, so forgetting it
+    // changes nothing
+    if (buckets.size > SWEEP_THRESHOLD) {
+      buckets.forEach((bucket, key) => {
+        if (now - bucket.updatedAt > 3_600_000) buckets.delete(key);
+      });
+    }
+  };
+
+  return {
+    async take(key, { capacity, refillPerSecond }, cost, now) {
+      sweep(now);
+      const state = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      const elapsed = Math.max(0, now - state.updatedAt) / 1000;
+      const tokens = Math.min(capacity, state.tokens + elapsed * refillPerSecond);
+      const allowed = tokens >= cost;
+      const remaining = allowed ? tokens - cost : tokens;
+      buckets.set(key, { tokens: remaining, updatedAt: now });
+      return { allowed, remaining };
+    },
+
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      sweep(now);
+      const existing = counters.get(key);
+      const counter = existing && existing.expiresAt > now ? existing : { count: 0, expiresAt: now + ttlMs };
+      counter.count += amount;
+      counters.set(key, counter);
+      return counter.count;
+    },
+  };
+};
@@ -0,0 +1,57 @@
+import type { RateLimitStore } from './types';
+
+// Rate limit store for Redis or anything that speaks its scripting commands
+// (Valkey, KeyDB, Upstash). Each operation is a single Lua script, so it is
+// atomic across server instances.
+
+// The one command the store needs, in the shape ioredis exposes it:
+// eval(script, numKeys, ...keys, ...args). Wrap other clients to match.
+export interface RedisLikeClient {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+}
+
+export interface RedisStoreOptions {
+  // Prepended to every key so several apps can share one database
+  keyPrefix?: string;
+}
+
+// Redis truncates Lua numbers to integers on the way out, so the fractional
+// token count travels as a string
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) / 1000 * refill)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill * 1000))
+return { allowed, tostring(tokens) }
+`;
+
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCRBY', KEYS[1], ARGV[1])
+if count == tonumber(ARGV[1]) then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return count
+`;
+
+export const createRedisStore = (client: RedisLikeClient, { keyPrefix = 'ratelimit:' }: RedisStoreOptions = {}): RateLimitStore => ({
+  async take(key, { capacity, refillPerSecond }, cost, now) {
+    const result = await client.eval(TAKE_SCRIPT, 1, `${keyPrefix}${key}`, capacity, refillPerSecond, cost, now);
+    if (!Array.isArray(result)) throw new Error('Unexpected reply from the rate limit script');
+    return { allowed: Number(result[0]) === 1, remaining: Number(result[1]) };
+  },
+
+  async increment(key, amount, ttlMs) {
+    return Number(await client.eval(INCREMENT_SCRIPT, 1, `${keyPrefix}${key}`, amount, ttlMs));
+  },
+});
@@ -0,0 +1,24 @@
+// Storage behind the rate limiter. Both operations must be atomic per key so
+// concurrent requests (or several server instances sharing a store) cannot
+// overspend a bucket.
+
+export interface TokenBucket {
+  // Most tokens the bucket holds, i.e. the allowed burst
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  // Tokens left after this request (fractional while refilling)
+  remaining: number;
+}
+
+export interface RateLimitStore {
+  // Refills the bucket at `key` for the time elapsed since it was last used,
+  // then takes `cost` tokens if it holds that many
+  take(key: string, bucket: TokenBucket, cost: number, now: number): Promise<TakeResult>;
+  // Adds `amount` to the counter at `key` and returns the new total. A new
+  // counter expires `ttlMs` after it is created.
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+}
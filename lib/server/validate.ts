@@ -0,0 +1,217 @@
+import type {
+  Citation,
+  ConversationTurn,
+  FeedbackRequest,
+  GeminiRequest,
+  InaccuracyReport,
+  MetricStage,
+  MetricsReport,
+  PinAnswerRequest,
+  SaveAudioRequest,
+  TtsRequest,
+  UpdateCachedAnswerRequest,
+} from '@/lib/api/types';
+import { MAX_AUDIO_PARTS, MAX_AUDIO_PART_CHARS, MAX_QUERY_CHARS, MAX_TTS_STYLE_CHARS, MAX_TTS_TEXT_CHARS } from '@/lib/api/limits';
+import { trimConversation } from '@/lib/context';
+import { isKnownVoice } from '@/lib/voice';
+import { BadRequestError } from './errors';
+
+type Body = Record<string, unknown>;
+
+const requiredString = (body: Body, key: string): string => {
+  const value = body[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new BadRequestError(`"${key}" is required`);
+  }
+  return value.trim();
+};
+
+// Caps what a caller can make the model read or speak in one request
+const limitedString = (body: Body, key: string, maxChars: number): string => {
+  const value = requiredString(body, key);
+  if (value.length > maxChars) {
+    throw new BadRequestError(`"${key}" is too long (${value.length} characters, at most ${maxChars} allowed)`);
+  }
+  return value;
+};
+
+const optionalString = (body: Body, key: string): string | undefined => {
+  const value = body[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new BadRequestError(`"${key}" must be a string`);
+  return value;
+};
+
+const optionalLimitedString = (body: Body, key: string, maxChars: number): string | undefined =>
+  optionalString(body, key)?.trim() ? limitedString(body, key, maxChars) : undefined;
+
+// Unknown names would only fail later, at Gemini
+const optionalVoice = (body: Body): string | undefined => {
+  const voice = optionalString(body, 'voice');
+  if (voice !== undefined && !isKnownVoice(voice)) throw new BadRequestError(`Unknown voice "${voice}"`);
+  return voice;
+};
+
+const parseHistory = (value: unknown): ConversationTurn[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new BadRequestError('"history" must be an array');
+  const turns = value.map((turn: unknown) => {
+    const { question, answer } = (turn ?? {}) as Record<string, unknown>;
+    if (typeof question !== 'string' || typeof answer !== 'string') {
+      throw new BadRequestError('Each "history" turn needs a question and an answer');
+    }
+    return { question, answer };
+  });
+  // Clients may send more than the budget; never forward it all to the model
+  return trimConversation(turns);
+};
+
+export const parseGeminiRequest = (body: Body): GeminiRequest => ({
+  query: limitedString(body, 'query', MAX_QUERY_CHARS),
+  language: optionalString(body, 'language'),
+  stream: body.stream === true,
+  fresh: body.fresh === true,
+  conversationId: optionalString(body, 'conversationId'),
+  history: parseHistory(body.history),
+  voice: optionalVoice(body),
+  style: optionalLimitedString(body, 'style', MAX_TTS_STYLE_CHARS),
+});
+
+export const parseTtsRequest = (body: Body): TtsRequest => ({
+  text: limitedString(body, 'text', MAX_TTS_TEXT_CHARS),
+  language: optionalString(body, 'language'),
+  voice: optionalVoice(body),
+  style: optionalLimitedString(body, 'style', MAX_TTS_STYLE_CHARS),
+});
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+// Chunks are stored by index, so both are bounded before anything is stored
+export const parseSaveAudioRequest = (body: Body): SaveAudioRequest => {
+  const { index, partCount } = body;
+  if (!isInteger(partCount) || partCount < 1 || partCount > MAX_AUDIO_PARTS) {
+    throw new BadRequestError(`"partCount" must be an integer from 1 to ${MAX_AUDIO_PARTS}`);
+  }
+  if (!isInteger(index) || index < 0 || index >= partCount) {
+    throw new BadRequestError('"index" must be a non-negative integer below "partCount"');
+  }
+  const timestamp = typeof body.timestamp === 'number' ? body.timestamp : Date.now();
+  return {
+    audioBase64: limitedString(body, 'audioBase64', MAX_AUDIO_PART_CHARS),
+    mimeType: requiredString(body, 'mimeType'),
+    originalMimeType: optionalString(body, 'originalMimeType'),
+    question: requiredString(body, 'question'),
+    answer: requiredString(body, 'answer'),
+    language: optionalString(body, 'language'),
+    voice: optionalVoice(body),
+    style: optionalLimitedString(body, 'style', MAX_TTS_STYLE_CHARS),
+    index,
+    partCount,
+    timestamp,
+  };
+};
+
+const REPORT_REASONS: InaccuracyReport['reason'][] = ['incorrect', 'wrong-source', 'off-topic', 'other'];
+const MAX_REPORT_CHARS = 2000;
+
+const parseReport = (value: unknown): InaccuracyReport | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) throw new BadRequestError('"report" must be an object');
+  const report = value as Body;
+  const reason = report.reason as InaccuracyReport['reason'];
+  if (!REPORT_REASONS.includes(reason)) {
+    throw new BadRequestError(`"report.reason" must be one of ${REPORT_REASONS.join(', ')}`);
+  }
+  return {
+    reason,
+    details: optionalString(report, 'details')?.slice(0, MAX_REPORT_CHARS),
+    correctReference: optionalString(report, 'correctReference')?.slice(0, 100),
+  };
+};
+
+export const parseFeedbackRequest = (body: Body): FeedbackRequest => {
+  const rating = body.rating;
+  if (rating !== undefined && rating !== null && rating !== 'up' && rating !== 'down') {
+    throw new BadRequestError('"rating" must be "up" or "down"');
+  }
+  const request: FeedbackRequest = {
+    question: requiredString(body, 'question'),
+    answer: requiredString(body, 'answer'),
+    language: optionalString(body, 'language'),
+    fromCache: body.fromCache === true,
+    rating: rating ?? undefined,
+    report: parseReport(body.report),
+  };
+  if (!request.rating && !request.report) throw new BadRequestError('Feedback needs a "rating" or a "report"');
+  return request;
+};
+
+const METRIC_STAGES: MetricStage[] = ['recognition', 'gemini', 'tts', 'first-audio'];
+const MAX_METRIC_EVENTS = 100;
+// Anything slower than this is a stuck tab, not a measurement
+const MAX_METRIC_DURATION_MS = 10 * 60_000;
+
+export const parseMetricsReport = (body: Body, now = Date.now()): MetricsReport => {
+  const { events } = body;
+  if (!Array.isArray(events)) throw new BadRequestError('"events" must be an array');
+  if (events.length > MAX_METRIC_EVENTS) throw new BadRequestError(`At most ${MAX_METRIC_EVENTS} events per report`);
+  return {
+    events: events.map((value: unknown) => {
+      const event = (value ?? {}) as Body;
+      const stage = event.stage as MetricStage;
+      if (!METRIC_STAGES.includes(stage)) {
+        throw new BadRequestError(`"stage" must be one of ${METRIC_STAGES.join(', ')}`);
+      }
+      const { durationMs, timestamp } = event;
+      if (typeof durationMs !== 'number' || !(durationMs >= 0 && durationMs <= MAX_METRIC_DURATION_MS)) {
+        throw new BadRequestError('"durationMs" must be a duration in milliseconds');
+      }
+      return {
+        stage,
+        durationMs,
+        ok: event.ok !== false,
+        error: optionalString(event, 'error')?.slice(0, 60),
+        fromCache: typeof event.fromCache === 'boolean' ? event.fromCache : undefined,
+        // Browser clocks drift; never let an event land in the future
+        timestamp: typeof timestamp === 'number' && timestamp <= now ? timestamp : now,
+      };
+    }),
+  };
+};
+
+const MAX_ANSWER_CHARS = 20_000;
+
+const parseCitations = (value: unknown): Citation[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new BadRequestError('"citations" must be an array');
+  return value.map((item: unknown) => {
+    const citation = (item ?? {}) as Body;
+    return {
+      id: requiredString(citation, 'id'),
+      title: optionalString(citation, 'title'),
+      location: optionalString(citation, 'location'),
+      passage: optionalString(citation, 'passage'),
+    };
+  });
+};
+
+export const parsePinAnswerRequest = (body: Body): PinAnswerRequest => ({
+  question: limitedString(body, 'question', MAX_QUERY_CHARS),
+  answer: limitedString(body, 'answer', MAX_ANSWER_CHARS),
+  language: optionalString(body, 'language'),
+  citations: parseCitations(body.citations),
+});
+
+export const parseUpdateCachedAnswerRequest = (body: Body): UpdateCachedAnswerRequest => {
+  const { pinned } = body;
+  if (pinned !== undefined && typeof pinned !== 'boolean') throw new BadRequestError('"pinned" must be a boolean');
+  const request: UpdateCachedAnswerRequest = {
+    answer: body.answer === undefined ? undefined : limitedString(body, 'answer', MAX_ANSWER_CHARS),
+    citations: parseCitations(body.citations),
+    pinned,
+  };
+  if (request.answer === undefined && !request.citations && pinned === undefined) {
+    throw new BadRequestError('Nothing to update: send "answer", "citations" or "pinned"');
+  }
+  return request;
+};
@@ -0,0 +1,51 @@
+// Clipboard, share sheet and download helpers for history entries
+
+export const copyText = async (text: string) => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+  // Older browsers and non-secure origins have no async clipboard API
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const copied = document.execCommand('copy');
+  document.body.removeChild(textarea);
+  if (!copied) throw new Error('Copy to clipboard failed');
+};
+
+export type ShareResult = 'shared' | 'copied' | 'cancelled';
+
+// Opens the native share sheet, falling back to copying the text
+export const shareText = async (title: string, text: string): Promise<ShareResult> => {
+  if (typeof navigator.share === 'function') {
+    try {
+      await navigator.share({ title, text });
+      return 'shared';
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return 'cancelled';
+      // Any other failure (e.g. NotAllowedError) falls through to the clipboard
+    }
+  }
+  await copyText(text);
+  return 'copied';
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const formatQuestionAndAnswer = (query: string, answer: string) =>
+  `Q: ${query}\n\nA: ${answer}\n\n— Vachanamrut Companion`;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { readTranscript } from './recognition';
+import type { SpeechRecognitionResultList } from './recognition';
+
+// Builds the result list a recognizer hands its onresult handler
+const resultList = (...results: Array<{ transcript: string; isFinal: boolean }>): SpeechRecognitionResultList =>
+  Object.assign(
+    results.map(({ transcript, isFinal }) => Object.assign([{ transcript, confidence: 0.9 }], { isFinal })),
+    { length: results.length },
+  );
+
+describe('readTranscript', () => {
+  it('keeps settled and still-changing text apart', () => {
+    expect(readTranscript(resultList(
+      { transcript: 'What is ', isFinal: true },
+      { transcript: 'satsang', isFinal: false },
+    ))).toEqual({ final: 'What is', interim: 'satsang' });
+  });
+
+  it('joins every final result of the session', () => {
+    expect(readTranscript(resultList(
+      { transcript: 'What is', isFinal: true },
+      { transcript: ' satsang?', isFinal: true },
+    ))).toEqual({ final: 'What is satsang?', interim: '' });
+  });
+
+  it('returns empty strings before anything is heard', () => {
+    expect(readTranscript(resultList())).toEqual({ final: '', interim: '' });
+  });
+});
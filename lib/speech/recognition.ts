@@ -0,0 +1,65 @@
+// Type definitions for Speech Recognition API
+export interface SpeechRecognitionWindow extends Window {
+  SpeechRecognition?: new () => SpeechRecognition;
+  webkitSpeechRecognition?: new () => SpeechRecognition;
+}
+
+export interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+}
+
+export interface SpeechRecognitionEvent {
+  // Index of the first result that changed in this event
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+export interface SpeechRecognitionResultList {
+  [index: number]: SpeechRecognitionResult;
+  length: number;
+}
+
+export interface SpeechRecognitionResult {
+  [index: number]: SpeechRecognitionAlternative;
+  length: number;
+  isFinal: boolean;
+}
+
+export interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+export interface SpeechRecognitionErrorEvent {
+  error: string;
+}
+
+export const getSpeechRecognition = (): (new () => SpeechRecognition) | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as SpeechRecognitionWindow;
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+// Splits the results of one session into the settled text and the part the
+// recognizer may still revise
+export const readTranscript = (results: SpeechRecognitionResultList) => {
+  let final = '';
+  let interim = '';
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i];
+    if (result.isFinal) {
+      final += result[0].transcript;
+    } else {
+      interim += result[0].transcript;
+    }
+  }
+  return { final: final.trim(), interim: interim.trim() };
+};
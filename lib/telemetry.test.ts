@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { MetricsReport } from '@/lib/api/types';
+import { createMetricsReporter } from './telemetry';
+
+const beaconUrl = '/api/metrics';
+
+const setup = (beaconAccepted: boolean, fetchResult: Promise<Response>) => {
+  const sendBeacon = vi.fn(() => beaconAccepted);
+  const fetch = vi.fn<typeof globalThis.fetch>(() => fetchResult);
+  vi.stubGlobal('navigator', { sendBeacon });
+  vi.stubGlobal('fetch', fetch);
+  const send = vi.fn<(report: MetricsReport) => Promise<void>>(() => Promise.resolve());
+  const reporter = createMetricsReporter({ send, beaconUrl });
+  reporter.record('gemini', 120);
+  return { reporter, sendBeacon, fetch, send };
+};
+
+describe('flushOnExit', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the batch as a beacon', () => {
+    const { reporter, sendBeacon, fetch } = setup(true, Promise.resolve(new Response()));
+    reporter.flushOnExit();
+    expect(sendBeacon).toHaveBeenCalledOnce();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a keepalive fetch when the beacon is refused', () => {
+    const { reporter, fetch } = setup(false, Promise.resolve(new Response()));
+    reporter.flushOnExit();
+    expect(fetch).toHaveBeenCalledWith(beaconUrl, expect.objectContaining({ method: 'POST', keepalive: true }));
+    expect(JSON.parse(String(fetch.mock.calls[0]?.[1]?.body)).events).toHaveLength(1);
+  });
+
+  it('keeps the events when the fallback fails too', async () => {
+    const { reporter, send } = setup(false, Promise.reject(new TypeError('Failed to fetch')));
+    reporter.flushOnExit();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    // Without a beacon what is left goes out through the regular report
+    vi.stubGlobal('navigator', {});
+    reporter.flushOnExit();
+    expect(send.mock.calls[0]?.[0].events).toHaveLength(1);
+  });
+});
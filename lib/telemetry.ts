@@ -0,0 +1,99 @@
+import type { MetricStage, MetricsReport } from '@/lib/api/types';
+import { createLogger } from '@/lib/logger';
+
+// Collects stage timings in the browser and reports them to /api/metrics in
+// batches. Nothing identifying is sent: no question or answer text, only the
+// stage, how long it took and whether it failed.
+
+const log = createLogger('api');
+
+type ClientMetric = MetricsReport['events'][number];
+
+export interface MetricsReporterOptions {
+  send: (report: MetricsReport) => Promise<unknown>;
+  // Where to beacon what is left when the page is hidden or closed
+  beaconUrl?: string;
+}
+
+const FLUSH_DELAY_MS = 15_000;
+const MAX_BATCH = 50;
+// Reports that keep failing are dropped rather than piling up
+const MAX_PENDING = 200;
+
+// Short label for a failure, e.g. 'HttpError 502'
+export const describeFailure = (err: unknown): string => {
+  if (err instanceof Error) {
+    const status = (err as { status?: unknown }).status;
+    return typeof status === 'number' ? `${err.name} ${status}` : err.name;
+  }
+  return 'Unknown';
+};
+
+export const createMetricsReporter = ({ send, beaconUrl }: MetricsReporterOptions) => {
+  let pending: ClientMetric[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const take = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const batch = pending.slice(0, MAX_BATCH);
+    pending = pending.slice(MAX_BATCH);
+    return batch;
+  };
+
+  const flush = () => {
+    const batch = take();
+    if (batch.length === 0) return;
+    send({ events: batch }).catch((err) => {
+      log.debug('Metrics report failed', err);
+      pending = [...batch, ...pending].slice(-MAX_PENDING);
+    });
+    if (pending.length > 0) flush();
+  };
+
+  const schedule = () => {
+    if (pending.length >= MAX_BATCH) flush();
+    else timer ??= setTimeout(flush, FLUSH_DELAY_MS);
+  };
+
+  const record = (stage: MetricStage, durationMs: number, fields: Partial<Pick<ClientMetric, 'ok' | 'error' | 'fromCache'>> = {}) => {
+    pending.push({ stage, durationMs: Math.round(durationMs), ok: fields.ok ?? true, ...fields, timestamp: Date.now() });
+    schedule();
+  };
+
+  return {
+    record,
+
+    // Records a failed stage, skipping cancellations
+    fail(stage: MetricStage, startedAt: number, err: unknown) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      record(stage, Date.now() - startedAt, { ok: false, error: describeFailure(err) });
+    },
+
+    // Sends what is left with sendBeacon, which survives the page unloading
+    flushOnExit() {
+      if (!beaconUrl || typeof navigator === 'undefined' || !navigator.sendBeacon) {
+        flush();
+        return;
+      }
+      while (pending.length > 0) {
+        const batch = take();
+        const body = JSON.stringify({ events: batch } satisfies MetricsReport);
+        if (navigator.sendBeacon(beaconUrl, new Blob([body], { type: 'application/json' }))) continue;
+        // The browser refused the beacon (too much queued); a keepalive fetch
+        // also outlives the page, and if that fails too the batch is kept for
+        // when the page is shown again
+        fetch(beaconUrl, { method: 'POST', body, headers: { 'Content-Type': 'application/json' }, keepalive: true })
+          .then((response) => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          })
+          .catch((err) => {
+            log.debug('Metrics beacon failed', err);
+            pending = [...batch, ...pending].slice(-MAX_PENDING);
+          });
+      }
+    },
+  };
+};
+
+export type MetricsReporter = ReturnType<typeof createMetricsReporter>;
@@ -0,0 +1,83 @@
+import { buildAnswerAudioFile } from '@/lib/audio/export';
+import type { HistoryEntry } from '@/lib/history/store';
+import { getLanguage } from '@/lib/language';
+import { createLogger } from '@/lib/logger';
+import { createZip } from '@/lib/zip';
+import type { ZipFile } from '@/lib/zip';
+
+const log = createLogger('history');
+
+// Transcript exports of history entries: Markdown, and a ZIP bundle with the
+// transcript plus one audio file per answer. The printable (PDF) version is
+// rendered by components/PrintableTranscript.tsx.
+
+export const TRANSCRIPT_TITLE = 'Vachanamrut Companion — Questions & Answers';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const dateStamp = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+export const transcriptFilename = (extension: string, date = new Date()) =>
+  `vachanamrut-transcript-${dateStamp(date)}.${extension}`;
+
+// Date range covered by the entries, e.g. "12 March 2025" or "12 – 14 March 2025"
+export const describeTranscriptDates = (entries: HistoryEntry[]) => {
+  if (entries.length === 0) return '';
+  const format = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+  const first = format(entries[0].timestamp);
+  const last = format(entries[entries.length - 1].timestamp);
+  return first === last ? first : `${first} – ${last}`;
+};
+
+// Keeps Markdown syntax in answers from turning into formatting
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_#[\]<>|])/g, '\\$1');
+
+export const formatTranscriptMarkdown = (entries: HistoryEntry[], audioFiles: Map<string, string> = new Map()) => {
+  const lines = [`# ${TRANSCRIPT_TITLE}`, '', `_${describeTranscriptDates(entries)}_`, ''];
+
+  entries.forEach((entry, index) => {
+    const time = new Date(entry.timestamp).toLocaleString();
+    lines.push(`## ${index + 1}. ${escapeMarkdown(entry.query)}`, '');
+    lines.push(`_${time} · ${getLanguage(entry.language).name}_`, '');
+    lines.push(...entry.answer.split(/\n/).map(escapeMarkdown), '');
+    if (entry.citations && entry.citations.length > 0) {
+      lines.push(`**Sources:** ${entry.citations.map(citation => escapeMarkdown(citation.id)).join(', ')}`, '');
+    }
+    const audio = audioFiles.get(entry.id);
+    if (audio) lines.push(`🔊 [Listen to the answer](${encodeURI(audio)})`, '');
+  });
+
+  return lines.join('\n');
+};
+
+// Turns a question into a short, filesystem-safe name (Gujarati letters kept)
+const slugify = (text: string) =>
+  text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'answer';
+
+// transcript.md plus audio/NN-question.wav for every answer with saved audio.
+// Answers without audio are still in the transcript.
+export const buildTranscriptBundle = async (entries: HistoryEntry[]): Promise<Blob> => {
+  const files: ZipFile[] = [];
+  const audioFiles = new Map<string, string>();
+
+  for (const [index, entry] of entries.entries()) {
+    if (entry.ttsParts.length === 0) continue;
+    try {
+      const { blob, extension } = await buildAnswerAudioFile(entry.ttsParts);
+      const name = `audio/${pad(index + 1)}-${slugify(entry.query)}.${extension}`;
+      files.push({ name, data: new Uint8Array(await blob.arrayBuffer()), modified: new Date(entry.timestamp) });
+      audioFiles.set(entry.id, name);
+    } catch (err) {
+      log.warn('Transcript export skipped an answer\'s audio', { entryId: entry.id, error: err });
+    }
+  }
+
+  const transcript = new TextEncoder().encode(formatTranscriptMarkdown(entries, audioFiles));
+  return createZip([{ name: 'transcript.md', data: transcript }, ...files]);
+};
@@ -0,0 +1,71 @@
+// Rough Gujarati/Devanagari → Latin transliteration, used only to compare
+// questions typed or recognized in different scripts ("વચનામૃત" and
+// "vachanamrut"). It is not meant for display.
+
+// The Gujarati block mirrors the Devanagari one 0x180 code points higher
+const GUJARATI_START = 0x0a80;
+const GUJARATI_END = 0x0aff;
+const GUJARATI_OFFSET = 0x180;
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ii', 'उ': 'u', 'ऊ': 'uu', 'ऋ': 'ru',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऍ': 'e', 'ऑ': 'o',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ii', 'ु': 'u', 'ू': 'uu', 'ृ': 'ru',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॅ': 'e', 'ॉ': 'o',
+};
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+};
+
+const VIRAMA = '्';
+const NASALS = new Set(['ं', 'ँ']);
+const VISARGA = 'ः';
+const NUKTA = '़';
+
+const toDevanagari = (text: string) =>
+  Array.from(text, (char) => {
+    const code = char.codePointAt(0) ?? 0;
+    return code >= GUJARATI_START && code <= GUJARATI_END ? String.fromCodePoint(code - GUJARATI_OFFSET) : char;
+  }).join('');
+
+export const transliterate = (text: string): string => {
+  const chars = Array.from(toDevanagari(text.normalize('NFC')));
+  let out = '';
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const consonant = CONSONANTS[char];
+    if (consonant) {
+      out += consonant;
+      let next = chars[i + 1];
+      if (next === NUKTA) next = chars[++i + 1];
+      if (next === VIRAMA) {
+        i++;
+      } else if (next && VOWEL_SIGNS[next]) {
+        out += VOWEL_SIGNS[next];
+        i++;
+      } else if (next && (CONSONANTS[next] || NASALS.has(next) || next === VISARGA)) {
+        // Inherent vowel; dropped at the end of a word as in spoken Gujarati
+        out += 'a';
+      }
+      continue;
+    }
+    if (VOWELS[char]) out += VOWELS[char];
+    // Before a consonant the anusvara is a nasal consonant ("સંગ" is "sang");
+    // elsewhere it only nasalizes the vowel and romanizations leave it out
+    // ("શું" is "shu")
+    else if (NASALS.has(char)) out += chars[i + 1] && CONSONANTS[chars[i + 1]] ? 'n' : '';
+    else if (char === VISARGA) out += 'h';
+    else if (char !== NUKTA && !VOWEL_SIGNS[char] && char !== VIRAMA) out += char;
+  }
+  return out;
+};
@@ -0,0 +1,71 @@
+// Splits an answer into speakable chunks so TTS can start on the first sentence
+// instead of waiting for the whole answer to be synthesized.
+
+export interface ChunkOptions {
+  // Chunks are packed up to this many characters where sentence breaks allow
+  maxChars?: number;
+  // A trailing chunk shorter than this is merged into the previous one
+  minChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 400;
+const DEFAULT_MIN_CHARS = 40;
+
+// Sentence terminators: English . ! ? plus the danda "।" and double danda "॥"
+// used in Gujarati and Hindi text. Closing quotes/brackets stay with the sentence.
+const SENTENCE_PATTERN = /[^.!?।॥]+(?:[.!?।॥]+["'”’)\]]*|$)/g;
+
+const splitSentences = (paragraph: string): string[] =>
+  (paragraph.match(SENTENCE_PATTERN) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+// Last resort for a single sentence longer than maxChars: break on commas,
+// then on whitespace
+const splitLongSentence = (sentence: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of sentence.split(/(?<=[,;:])\s+|\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxChars && current) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+export const splitIntoChunks = (text: string, options: ChunkOptions = {}): string[] => {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const minChars = options.minChars ?? DEFAULT_MIN_CHARS;
+  const chunks: string[] = [];
+
+  // Paragraph breaks are natural pauses, so never pack across them
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    let current = '';
+    for (const sentence of splitSentences(paragraph.replace(/\s*\n\s*/g, ' '))) {
+      const parts = sentence.length > maxChars ? splitLongSentence(sentence, maxChars) : [sentence];
+      for (const part of parts) {
+        const candidate = current ? `${current} ${part}` : part;
+        if (candidate.length > maxChars && current) {
+          chunks.push(current);
+          current = part;
+        } else {
+          current = candidate;
+        }
+      }
+    }
+    if (current) chunks.push(current);
+  }
+
+  // Avoid a tiny final request that would sound clipped on its own
+  if (chunks.length > 1 && chunks[chunks.length - 1].length < minChars) {
+    const last = chunks.pop()!;
+    chunks[chunks.length - 1] = `${chunks[chunks.length - 1]} ${last}`;
+  }
+
+  return chunks;
+};
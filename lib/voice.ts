@@ -0,0 +1,105 @@
+import { MAX_TTS_STYLE_CHARS } from './api/limits';
+import { getLanguage } from './language';
+
+// Gemini prebuilt TTS voices and speaking styles the listener can choose
+// from. Shared with the server, which rejects voices not listed here.
+
+export interface VoiceOption {
+  name: string;
+  // Google's one-word description of the voice
+  tone: string;
+}
+
+export const VOICES: VoiceOption[] = [
+  { name: 'Zephyr', tone: 'Bright' },
+  { name: 'Puck', tone: 'Upbeat' },
+  { name: 'Charon', tone: 'Informative' },
+  { name: 'Kore', tone: 'Firm' },
+  { name: 'Fenrir', tone: 'Excitable' },
+  { name: 'Leda', tone: 'Youthful' },
+  { name: 'Orus', tone: 'Firm' },
+  { name: 'Aoede', tone: 'Breezy' },
+  { name: 'Callirrhoe', tone: 'Easy-going' },
+  { name: 'Autonoe', tone: 'Bright' },
+  { name: 'Enceladus', tone: 'Breathy' },
+  { name: 'Iapetus', tone: 'Clear' },
+  { name: 'Umbriel', tone: 'Easy-going' },
+  { name: 'Algieba', tone: 'Smooth' },
+  { name: 'Despina', tone: 'Smooth' },
+  { name: 'Erinome', tone: 'Clear' },
+  { name: 'Algenib', tone: 'Gravelly' },
+  { name: 'Rasalgethi', tone: 'Informative' },
+  { name: 'Laomedeia', tone: 'Upbeat' },
+  { name: 'Achernar', tone: 'Soft' },
+  { name: 'Alnilam', tone: 'Firm' },
+  { name: 'Schedar', tone: 'Even' },
+  { name: 'Gacrux', tone: 'Mature' },
+  { name: 'Pulcherrima', tone: 'Forward' },
+  { name: 'Achird', tone: 'Friendly' },
+  { name: 'Zubenelgenubi', tone: 'Casual' },
+  { name: 'Vindemiatrix', tone: 'Gentle' },
+  { name: 'Sadachbia', tone: 'Lively' },
+  { name: 'Sadaltager', tone: 'Knowledgeable' },
+  { name: 'Sulafat', tone: 'Warm' },
+];
+
+export const isKnownVoice = (name: string) => VOICES.some(voice => voice.name === name);
+
+export interface SpeakingStyle {
+  id: string;
+  label: string;
+  // Instruction the TTS model reads before the text; empty means none
+  prompt: string;
+}
+
+export const SPEAKING_STYLES: SpeakingStyle[] = [
+  { id: 'natural', label: 'Natural', prompt: '' },
+  { id: 'calm', label: 'Calm', prompt: 'Read this slowly, in a calm and peaceful voice' },
+  { id: 'reverent', label: 'Reverent', prompt: 'Read this in a reverent, devotional tone, as in a satsang' },
+  { id: 'warm', label: 'Warm', prompt: 'Read this warmly, like a kind teacher explaining to a student' },
+  { id: 'storyteller', label: 'Storyteller', prompt: 'Read this like a storyteller, with gentle expression' },
+];
+
+export const CUSTOM_STYLE_ID = 'custom';
+
+export interface VoiceSettings {
+  // Chosen voice per language code; languages without one use their default
+  voices: Record<string, string>;
+  // An id from SPEAKING_STYLES, or CUSTOM_STYLE_ID
+  styleId: string;
+  customStyle: string;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voices: {},
+  styleId: 'natural',
+  customStyle: '',
+};
+
+// What a /api/tts call is made with, and what saved audio is matched against
+export interface SpeechVoice {
+  voice: string;
+  style?: string;
+}
+
+// Settings are read back from storage, so every field is checked before use
+export const resolveSpeechVoice = (settings: Partial<VoiceSettings> | undefined, languageCode: string): SpeechVoice => {
+  const chosen = settings?.voices?.[languageCode];
+  const voice = chosen && isKnownVoice(chosen) ? chosen : getLanguage(languageCode).voice;
+  const style = settings?.styleId === CUSTOM_STYLE_ID
+    ? settings.customStyle?.trim().slice(0, MAX_TTS_STYLE_CHARS)
+    : SPEAKING_STYLES.find(option => option.id === settings?.styleId)?.prompt;
+  return { voice, style: style || undefined };
+};
+
+// Short line spoken when the listener previews a voice
+const PREVIEW_TEXT: Record<string, string> = {
+  'gu-IN': 'જય સ્વામિનારાયણ. હું વચનામૃત વિશેના તમારા પ્રશ્નોના જવાબ આપીશ.',
+  'en-IN': 'Jay Swaminarayan. I will answer your questions about the Vachanamrut.',
+  'hi-IN': 'जय स्वामिनारायण। मैं वचनामृत के बारे में आपके प्रश्नों के उत्तर दूँगा।',
+};
+
+export const getPreviewText = (languageCode: string) => PREVIEW_TEXT[languageCode] ?? PREVIEW_TEXT['en-IN'];
+
+export const isSameSpeechVoice = (a: SpeechVoice, b: SpeechVoice) =>
+  a.voice === b.voice && (a.style ?? '') === (b.style ?? '');
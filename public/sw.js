@@ -0,0 +1,60 @@
+// Service worker for offline use. Caches the app shell so the page opens
+// without a network; answers and their audio live in IndexedDB (see
+// lib/history/store.ts), and API calls are never cached here.
+
+const CACHE = 'vachanamrut-shell-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages: network first so deploys show up, falling back to the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => putInCache(request, response))
+        .catch(() => caches.match(request).then(cached => cached ?? caches.match('/'))),
+    );
+    return;
+  }
+
+  // Build assets are content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then(cached => cached ?? fetch(request).then(response => putInCache(request, response))),
+    );
+    return;
+  }
+
+  // Everything else (icons, fonts): cache, refreshed in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request).then(response => putInCache(request, response));
+      return cached ?? network;
+    }),
+  );
+});